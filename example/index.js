@@ -15,19 +15,32 @@ var app = new phosphide.Application({
     require('jupyter-js-plugins/lib/terminal/plugin').terminalExtension,
     require('jupyter-js-plugins/lib/filehandler/plugin').fileHandlerExtension,
     require('jupyter-js-plugins/lib/filebrowser/plugin').fileBrowserExtension,
+    require('jupyter-js-plugins/lib/running/plugin').runningSessionsExtension,
+    require('jupyter-js-plugins/lib/toc/plugin').tableOfContentsExtension,
     require('jupyter-js-plugins/lib/imagehandler/plugin').imageHandlerExtension,
+    require('jupyter-js-plugins/lib/csvhandler/plugin').csvHandlerExtension,
+    require('jupyter-js-plugins/lib/jsonhandler/plugin').jsonHandlerExtension,
+    require('jupyter-js-plugins/lib/pdfhandler/plugin').pdfHandlerExtension,
+    require('jupyter-js-plugins/lib/markdownpreview/plugin').markdownPreviewExtension,
     require('jupyter-js-plugins/lib/help/plugin').helpHandlerExtension,
     require('jupyter-js-plugins/lib/notebook/plugin').notebookHandlerExtension,
+    require('jupyter-js-plugins/lib/readonly-notebook/plugin').notebookViewerExtension,
     require('jupyter-js-plugins/lib/shortcuts/plugin').shortcutsExtension,
+    require('jupyter-js-plugins/lib/rendermime/plugin').renderMimeExtension,
     require('jupyter-js-plugins/lib/about/plugin').aboutExtension,
     require('jupyter-js-plugins/lib/landing/plugin').landingExtension,
     require('jupyter-js-plugins/lib/main/plugin').mainExtension,
   ],
   providers: [
+    require('jupyter-js-plugins/lib/filehandler/plugin').documentRegistryProvider,
     require('jupyter-js-plugins/lib/filehandler/plugin').fileHandlerProvider,
+    require('jupyter-js-plugins/lib/documenttracker/plugin').documentTrackerProvider,
     require('jupyter-js-plugins/lib/services/plugin').servicesProvider,
+    require('jupyter-js-plugins/lib/shortcuts/plugin').shortcutManagerProvider,
+    require('jupyter-js-plugins/lib/rendermime/plugin').renderMimeRegistryProvider,
     require('jupyter-js-plugins/lib/rendermime/plugin').renderMimeProvider,
-    require('jupyter-js-plugins/lib/notebook/plugin').activeNotebookProvider
+    require('jupyter-js-plugins/lib/notebook/plugin').activeNotebookProvider,
+    require('jupyter-js-plugins/lib/terminal/plugin').terminalTrackerProvider
   ]
 });
 
@@ -0,0 +1,91 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IContentsModel, IContentsOpts
+} from 'jupyter-js-services';
+
+import {
+  AbstractFileHandler
+} from 'jupyter-js-ui/lib/filehandler';
+
+import {
+  Application
+} from 'phosphide/lib/core/application';
+
+import {
+  DocumentRegistry
+} from '../filehandler/registry';
+
+import {
+  JupyterServices
+} from '../services/plugin';
+
+import {
+  TableWidget
+} from './widget';
+
+
+/**
+ * The delimited text file handler extension.
+ */
+export
+const csvHandlerExtension = {
+  id: 'jupyter.extensions.csvHandler',
+  requires: [DocumentRegistry, JupyterServices],
+  activate: (app: Application, registry: DocumentRegistry, services: JupyterServices) => {
+    let handler = new CSVHandler(services.contentsManager);
+    registry.addHandler(handler, { name: 'Table' });
+    return Promise.resolve(void 0);
+  }
+};
+
+
+/**
+ * A file handler for comma and tab separated values.
+ *
+ * #### Notes
+ * The table is read-only, the text is saved as it was loaded.
+ */
+export
+class CSVHandler extends AbstractFileHandler<TableWidget> {
+  /**
+   * Get the list of file extensions explicitly supported by the handler.
+   */
+  get fileExtensions(): string[] {
+    return ['.csv', '.tsv'];
+  }
+
+  /**
+   * Get the options used to fetch the model contents from disk.
+   */
+  protected getFetchOptions(path: string): IContentsOpts {
+    return { type: 'file', format: 'text' };
+  }
+
+  /**
+   * Get the options used to save the widget content.
+   */
+  protected getSaveOptions(widget: TableWidget, path: string): Promise<IContentsOpts> {
+    return Promise.resolve({ type: 'file', format: 'text', content: widget.text });
+  }
+
+  /**
+   * Create the widget from a path.
+   */
+  protected createWidget(path: string): TableWidget {
+    let delimiter = /\.tsv$/i.test(path) ? '\t' : ',';
+    let widget = new TableWidget(delimiter);
+    widget.title.text = path.split('/').pop();
+    return widget;
+  }
+
+  /**
+   * Populate a widget from `IContentsModel`.
+   */
+  protected populateWidget(widget: TableWidget, model: IContentsModel): Promise<IContentsModel> {
+    widget.text = model.content;
+    return Promise.resolve(model);
+  }
+}
@@ -0,0 +1,431 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  ResizeMessage, Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to table widgets.
+ */
+const TABLE_CLASS = 'jp-TableWidget';
+
+/**
+ * The class name added to the header row of a table widget.
+ */
+const HEADER_CLASS = 'jp-TableWidget-header';
+
+/**
+ * The class name added to the scrolling body of a table widget.
+ */
+const BODY_CLASS = 'jp-TableWidget-body';
+
+/**
+ * The class name added to the node sized to all of the rows.
+ */
+const SPACER_CLASS = 'jp-TableWidget-spacer';
+
+/**
+ * The class name added to table rows.
+ */
+const ROW_CLASS = 'jp-TableWidget-row';
+
+/**
+ * The class name added to table cells.
+ */
+const CELL_CLASS = 'jp-TableWidget-cell';
+
+/**
+ * The class name added to the row count readout.
+ */
+const FOOTER_CLASS = 'jp-TableWidget-footer';
+
+/**
+ * The class name added to a header cell sorted in ascending order.
+ */
+const ASCENDING_CLASS = 'jp-mod-ascending';
+
+/**
+ * The class name added to a header cell sorted in descending order.
+ */
+const DESCENDING_CLASS = 'jp-mod-descending';
+
+/**
+ * The height of a table row in pixels.
+ */
+const ROW_HEIGHT = 24;
+
+/**
+ * The width of a table column in pixels.
+ */
+const COLUMN_WIDTH = 160;
+
+/**
+ * The number of rows rendered above and below the visible rows.
+ */
+const OVERSCAN = 10;
+
+
+/**
+ * A widget which displays delimited text as a sortable table.
+ *
+ * #### Notes
+ * The first row of the text is the header.  Only the visible rows are
+ * rendered, so large files scroll smoothly.
+ *
+ * Clicking a header cell sorts by the column, first in ascending order,
+ * then in descending order, then in file order.
+ */
+export
+class TableWidget extends Widget {
+  /**
+   * Create a new node for the widget.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let header = document.createElement('div');
+    let body = document.createElement('div');
+    let spacer = document.createElement('div');
+    let footer = document.createElement('div');
+    header.className = `${HEADER_CLASS} ${ROW_CLASS}`;
+    body.className = BODY_CLASS;
+    spacer.className = SPACER_CLASS;
+    footer.className = FOOTER_CLASS;
+    body.appendChild(spacer);
+    node.appendChild(header);
+    node.appendChild(body);
+    node.appendChild(footer);
+    return node;
+  }
+
+  /**
+   * Construct a new table widget.
+   *
+   * @param delimiter - The field delimiter of the text.
+   */
+  constructor(delimiter: string) {
+    super();
+    this.addClass(TABLE_CLASS);
+    this.node.tabIndex = 0;
+    this._delimiter = delimiter;
+  }
+
+  /**
+   * Get the field delimiter of the text.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get delimiter(): string {
+    return this._delimiter;
+  }
+
+  /**
+   * Get the text displayed by the widget.
+   */
+  get text(): string {
+    return this._text;
+  }
+
+  /**
+   * Set the text displayed by the widget.
+   */
+  set text(value: string) {
+    this._text = value;
+    let rows = parseDelimited(value, this._delimiter);
+    this._columns = rows.shift() || [];
+    this._rows = rows;
+    this._order = rows.map((row, i) => i);
+    this._sortColumn = -1;
+    this._renderHeader();
+    this.update();
+  }
+
+  /**
+   * Sort the rows by a column.
+   *
+   * @param column - The index of the column, or `-1` for file order.
+   *
+   * @param descending - Whether to sort in descending order.
+   *
+   * #### Notes
+   * Columns of numbers are compared as numbers, others as text.
+   */
+  sort(column: number, descending = false): void {
+    let order = this._rows.map((row, i) => i);
+    if (column >= 0) {
+      let rows = this._rows;
+      let numeric = rows.every(row => Private.isNumber(row[column]));
+      let sign = descending ? -1 : 1;
+      order.sort((a, b) => {
+        let x = rows[a][column] || '';
+        let y = rows[b][column] || '';
+        // Empty fields are sorted last in either order.
+        if (!x || !y) {
+          return (x ? -1 : y ? 1 : 0) || a - b;
+        }
+        return sign * Private.compare(x, y, numeric) || a - b;
+      });
+    }
+    this._order = order;
+    this._sortColumn = column;
+    this._descending = descending;
+    this._renderHeader();
+    this.update();
+  }
+
+  /**
+   * Handle the DOM events for the widget.
+   *
+   * @param event - The DOM event sent to the widget.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the widget's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'click':
+      this._evtClick(event as MouseEvent);
+      break;
+    case 'scroll':
+      this._evtScroll(event);
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.node.addEventListener('click', this);
+    this._body.addEventListener('scroll', this);
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    this._body.removeEventListener('scroll', this);
+    super.onBeforeDetach(msg);
+  }
+
+  /**
+   * A message handler invoked on a `'resize'` message.
+   */
+  protected onResize(msg: ResizeMessage): void {
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on an `'after-show'` message.
+   */
+  protected onAfterShow(msg: Message): void {
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   *
+   * #### Notes
+   * This renders the rows in and around the visible part of the body.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let body = this._body;
+    let spacer = body.firstChild as HTMLElement;
+    let width = `${this._columns.length * COLUMN_WIDTH}px`;
+    spacer.style.height = `${this._order.length * ROW_HEIGHT}px`;
+    spacer.style.width = width;
+    spacer.textContent = '';
+    let first = Math.floor(body.scrollTop / ROW_HEIGHT) - OVERSCAN;
+    let count = Math.ceil(body.clientHeight / ROW_HEIGHT) + 2 * OVERSCAN;
+    first = Math.max(first, 0);
+    let last = Math.min(first + count, this._order.length);
+    for (let i = first; i < last; i++) {
+      let row = Private.createRow(this._rows[this._order[i]], this._columns.length);
+      row.style.top = `${i * ROW_HEIGHT}px`;
+      row.style.width = width;
+      spacer.appendChild(row);
+    }
+    let header = this.node.firstChild as HTMLElement;
+    header.style.transform = `translateX(${-body.scrollLeft}px)`;
+    let footer = this.node.lastChild as HTMLElement;
+    let rows = this._rows.length;
+    let columns = this._columns.length;
+    footer.textContent = (
+      `${rows} ${rows === 1 ? 'row' : 'rows'}, ` +
+      `${columns} ${columns === 1 ? 'column' : 'columns'}`
+    );
+  }
+
+  /**
+   * Get the scrolling body node.
+   */
+  private get _body(): HTMLElement {
+    return this.node.getElementsByClassName(BODY_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * Render the header row.
+   */
+  private _renderHeader(): void {
+    let header = this.node.firstChild as HTMLElement;
+    let row = Private.createRow(this._columns, this._columns.length);
+    header.textContent = '';
+    header.style.width = `${this._columns.length * COLUMN_WIDTH}px`;
+    while (row.firstChild) {
+      header.appendChild(row.firstChild);
+    }
+    let cell = header.childNodes[this._sortColumn] as HTMLElement;
+    if (cell) {
+      cell.classList.add(this._descending ? DESCENDING_CLASS : ASCENDING_CLASS);
+    }
+  }
+
+  /**
+   * Handle the `'click'` event for the widget.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let header = this.node.firstChild as HTMLElement;
+    let target = event.target as HTMLElement;
+    if (target.parentNode !== header) {
+      return;
+    }
+    let column = Array.prototype.indexOf.call(header.childNodes, target);
+    if (column !== this._sortColumn) {
+      this.sort(column);
+    } else if (!this._descending) {
+      this.sort(column, true);
+    } else {
+      this.sort(-1);
+    }
+  }
+
+  /**
+   * Handle the `'scroll'` event for the body.
+   */
+  private _evtScroll(event: Event): void {
+    this.update();
+  }
+
+  private _delimiter: string;
+  private _text = '';
+  private _columns: string[] = [];
+  private _rows: string[][] = [];
+  private _order: number[] = [];
+  private _sortColumn = -1;
+  private _descending = false;
+}
+
+
+/**
+ * Parse delimited text into rows of fields.
+ *
+ * @param text - The text to parse.
+ *
+ * @param delimiter - The field delimiter.
+ *
+ * #### Notes
+ * Fields may be quoted with `"`, a quoted field may contain delimiters,
+ * line breaks and doubled quotes.  Blank lines are skipped.
+ */
+export
+function parseDelimited(text: string, delimiter: string): string[][] {
+  let rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+  while (i < text.length) {
+    let c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      if (row.length > 1 || row[0] !== '') {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+    i++;
+  }
+  row.push(field);
+  if (row.length > 1 || row[0] !== '') {
+    rows.push(row);
+  }
+  return rows;
+}
+
+
+/**
+ * A namespace for table widget private data.
+ */
+namespace Private {
+  /**
+   * Create a row node with a cell for each column.
+   */
+  export
+  function createRow(fields: string[], columns: number): HTMLElement {
+    let row = document.createElement('div');
+    row.className = ROW_CLASS;
+    for (let i = 0; i < columns; i++) {
+      let cell = document.createElement('div');
+      cell.className = CELL_CLASS;
+      cell.style.width = `${COLUMN_WIDTH}px`;
+      cell.textContent = fields[i] || '';
+      cell.title = fields[i] || '';
+      row.appendChild(cell);
+    }
+    return row;
+  }
+
+  /**
+   * Test whether a field is a number.
+   *
+   * #### Notes
+   * Empty fields count as numbers, so gaps do not make a column text.
+   */
+  export
+  function isNumber(field: string): boolean {
+    return !field || (!isNaN(Number(field)) && field.trim() !== '');
+  }
+
+  /**
+   * Compare two non-empty fields.
+   */
+  export
+  function compare(a: string, b: string, numeric: boolean): number {
+    if (numeric) {
+      return Number(a) - Number(b);
+    }
+    return a.localeCompare(b);
+  }
+}
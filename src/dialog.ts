@@ -0,0 +1,35 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  okButton, showDialog
+} from 'jupyter-js-ui/lib/dialog';
+
+
+/**
+ * Show an error message in a dialog.
+ *
+ * @param title - The title of the dialog.
+ *
+ * @param error - The error to show, either an `Error` or a message.
+ *
+ * @param host - The node the dialog is shown over.  The default is the
+ *   document body.
+ *
+ * @returns A promise which resolves when the dialog is closed.
+ *
+ * #### Notes
+ * The message is shown as text, it is never parsed as HTML.
+ */
+export
+function showError(title: string, error: any, host?: HTMLElement): Promise<void> {
+  let body = document.createElement('span');
+  body.textContent = (error && error.message) || String(error);
+  return showDialog({
+    title,
+    body,
+    host,
+    buttons: [okButton]
+  }).then(() => void 0);
+}
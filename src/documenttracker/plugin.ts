@@ -0,0 +1,339 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  FileHandlerRegistry
+} from 'jupyter-js-ui/lib/filehandler';
+
+import {
+  IMessageFilter, IMessageHandler, Message, installMessageFilter,
+  removeMessageFilter
+} from 'phosphor-messaging';
+
+import {
+  IChangedArgs
+} from 'phosphor-properties';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  Title, Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to the titles of dirty documents by the file handlers.
+ */
+const DIRTY_CLASS = 'jp-mod-dirty';
+
+
+/**
+ * A tracker for a set of widgets and the current active widget.
+ *
+ * #### Notes
+ * The active widget follows focus within the tracked widgets and main
+ * area tab activation.  Widgets are removed from the tracker when they
+ * are closed or disposed.
+ */
+export
+class WidgetTracker<T extends Widget> implements IMessageFilter {
+  /**
+   * Construct a new widget tracker.
+   */
+  constructor() {
+    document.body.addEventListener('focus', this, true);
+  }
+
+  /**
+   * A signal emitted when the active widget changes.
+   */
+  get activeWidgetChanged(): ISignal<WidgetTracker<T>, T> {
+    return Private.activeWidgetChangedSignal.bind(this) as ISignal<WidgetTracker<T>, T>;
+  }
+
+  /**
+   * A signal emitted when a widget is added to or removed from the tracker.
+   */
+  get widgetsChanged(): ISignal<WidgetTracker<T>, void> {
+    return Private.widgetsChangedSignal.bind(this) as ISignal<WidgetTracker<T>, void>;
+  }
+
+  /**
+   * Get the current active widget.
+   *
+   * #### Notes
+   * This is a read-only property.  It is `null` when there are no
+   * tracked widgets.
+   */
+  get activeWidget(): T {
+    return this._activeWidget;
+  }
+
+  /**
+   * Get the list of tracked widgets.
+   *
+   * #### Notes
+   * This is a read-only property.  The widgets are listed in the order
+   * in which they were added.
+   */
+  get widgets(): T[] {
+    return this._widgets.slice();
+  }
+
+  /**
+   * Add a widget to the tracker and make it the active widget.
+   *
+   * @param widget - The widget to track.
+   */
+  add(widget: T): void {
+    if (this._widgets.indexOf(widget) === -1) {
+      this._widgets.push(widget);
+      installMessageFilter(widget, this);
+      widget.disposed.connect(this._onDisposed, this);
+      this.onWidgetAdded(widget);
+      this.widgetsChanged.emit(void 0);
+    }
+    this._setActive(widget);
+  }
+
+  /**
+   * Handle the DOM events for the tracker.
+   *
+   * @param event - The DOM event sent to the tracker.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the document body.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'focus') {
+      this._evtFocus(event as FocusEvent);
+    }
+  }
+
+  /**
+   * Filter the messages sent to the tracked widgets.
+   *
+   * #### Notes
+   * Messages are never blocked by the tracker.
+   */
+  filterMessage(handler: IMessageHandler, msg: Message): boolean {
+    let widget = handler as T;
+    switch (msg.type) {
+    case 'after-show':
+      // The widget was activated in its tab panel.
+      this._setActive(widget);
+      break;
+    case 'after-detach':
+      // A widget dragged between tab panels is reattached synchronously.
+      Promise.resolve().then(() => {
+        if (!widget.isAttached) this._remove(widget);
+      });
+      break;
+    }
+    return false;
+  }
+
+  /**
+   * A method invoked when a widget is added to the tracker.
+   *
+   * #### Notes
+   * The default implementation is a no-op.
+   */
+  protected onWidgetAdded(widget: T): void { }
+
+  /**
+   * A method invoked when a widget is removed from the tracker.
+   *
+   * #### Notes
+   * The default implementation is a no-op.
+   */
+  protected onWidgetRemoved(widget: T): void { }
+
+  /**
+   * Handle the `'focus'` event for the document body.
+   */
+  private _evtFocus(event: FocusEvent): void {
+    let target = event.target as HTMLElement;
+    for (let widget of this._widgets) {
+      if (widget.isAttached && widget.isVisible) {
+        if (widget.node.contains(target)) {
+          this._setActive(widget);
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Handle the disposal of a tracked widget.
+   */
+  private _onDisposed(sender: T): void {
+    this._remove(sender);
+  }
+
+  /**
+   * Stop tracking a widget.
+   */
+  private _remove(widget: T): void {
+    let index = this._widgets.indexOf(widget);
+    if (index === -1) {
+      return;
+    }
+    this._widgets.splice(index, 1);
+    removeMessageFilter(widget, this);
+    widget.disposed.disconnect(this._onDisposed, this);
+    this.onWidgetRemoved(widget);
+    this.widgetsChanged.emit(void 0);
+    if (this._activeWidget === widget) {
+      let count = this._widgets.length;
+      this._setActive(count ? this._widgets[count - 1] : null);
+    }
+  }
+
+  /**
+   * Set the active widget, emitting a signal if it changed.
+   */
+  private _setActive(widget: T): void {
+    if (this._activeWidget === widget) {
+      return;
+    }
+    this._activeWidget = widget;
+    this.activeWidgetChanged.emit(widget);
+  }
+
+  private _activeWidget: T = null;
+  private _widgets: T[] = [];
+}
+
+
+/**
+ * A tracker for the documents opened through the file handler registry.
+ */
+export
+class DocumentTracker extends WidgetTracker<Widget> {
+  /**
+   * Construct a new document tracker.
+   *
+   * @param registry - The file handler registry used to open documents.
+   */
+  constructor(registry: FileHandlerRegistry) {
+    super();
+    this._registry = registry;
+    registry.opened.connect((r, widget) => {
+      this.add(widget);
+    });
+  }
+
+  /**
+   * A signal emitted when the dirty state of a document changes.
+   */
+  get dirtyChanged(): ISignal<DocumentTracker, Widget> {
+    return Private.dirtyChangedSignal.bind(this);
+  }
+
+  /**
+   * Get the path of the current active document.
+   *
+   * #### Notes
+   * This is a read-only property.  It is `null` when there is no
+   * active document.
+   */
+  get activePath(): string {
+    let widget = this.activeWidget;
+    return (widget && this._registry.findPath(widget)) || null;
+  }
+
+  /**
+   * Test whether a document has unsaved changes.
+   *
+   * @param widget - The document widget of interest.
+   */
+  isDirty(widget: Widget): boolean {
+    return Private.hasDirtyClass(widget.title.className);
+  }
+
+  /**
+   * Follow the dirty state of an added document.
+   */
+  protected onWidgetAdded(widget: Widget): void {
+    widget.title.changed.connect(this._onTitleChanged, this);
+  }
+
+  /**
+   * Stop following the dirty state of a removed document.
+   */
+  protected onWidgetRemoved(widget: Widget): void {
+    widget.title.changed.disconnect(this._onTitleChanged, this);
+  }
+
+  /**
+   * Handle a change to the title of a tracked document.
+   */
+  private _onTitleChanged(sender: Title, args: IChangedArgs<any>): void {
+    if (args.name !== 'className') {
+      return;
+    }
+    let wasDirty = Private.hasDirtyClass(args.oldValue);
+    if (wasDirty === Private.hasDirtyClass(args.newValue)) {
+      return;
+    }
+    for (let widget of this.widgets) {
+      if (widget.title === sender) {
+        this.dirtyChanged.emit(widget);
+        return;
+      }
+    }
+  }
+
+  private _registry: FileHandlerRegistry = null;
+}
+
+
+/**
+ * The default document tracker provider.
+ */
+export
+const documentTrackerProvider = {
+  id: 'jupyter.services.documentTracker',
+  provides: DocumentTracker,
+  requires: [FileHandlerRegistry],
+  resolve: (registry: FileHandlerRegistry) => {
+    return new DocumentTracker(registry);
+  }
+};
+
+
+/**
+ * A namespace for document tracker private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when the active widget changes.
+   */
+  export
+  const activeWidgetChangedSignal = new Signal<WidgetTracker<Widget>, Widget>();
+
+  /**
+   * A signal emitted when the tracked widgets change.
+   */
+  export
+  const widgetsChangedSignal = new Signal<WidgetTracker<Widget>, void>();
+
+  /**
+   * A signal emitted when the dirty state of a document changes.
+   */
+  export
+  const dirtyChangedSignal = new Signal<DocumentTracker, Widget>();
+
+  /**
+   * Test whether a title class name marks a dirty document.
+   */
+  export
+  function hasDirtyClass(className: string): boolean {
+    return (' ' + (className || '') + ' ').indexOf(` ${DIRTY_CLASS} `) !== -1;
+  }
+}
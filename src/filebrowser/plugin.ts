@@ -7,21 +7,17 @@ import {
 } from 'jupyter-js-services';
 
 import {
-  FileBrowserWidget, FileBrowserModel
-} from 'jupyter-js-ui/lib/filebrowser';
+  showDialog
+} from 'jupyter-js-ui/lib/dialog';
 
 import {
-  FileHandlerRegistry
-} from 'jupyter-js-ui/lib/filehandler';
+  FileBrowserWidget, FileBrowserModel
+} from 'jupyter-js-ui/lib/filebrowser';
 
 import {
   Application
 } from 'phosphide/lib/core/application';
 
-import {
-  IChangedArgs
-} from 'phosphor-properties';
-
 import {
   Menu, MenuItem
 } from 'phosphor-menus';
@@ -31,8 +27,16 @@ import {
 } from 'phosphor-tabs';
 
 import {
-  Widget
-} from 'phosphor-widget';
+  showError
+} from '../dialog';
+
+import {
+  DocumentTracker
+} from '../documenttracker/plugin';
+
+import {
+  DocumentRegistry
+} from '../filehandler/registry';
 
 import {
   JupyterServices
@@ -45,7 +49,7 @@ import {
 export
 const fileBrowserExtension = {
   id: 'jupyter.extensions.fileBrowser',
-  requires: [JupyterServices, FileHandlerRegistry],
+  requires: [JupyterServices, DocumentRegistry, DocumentTracker],
   activate: activateFileBrowser
 };
 
@@ -53,23 +57,27 @@ const fileBrowserExtension = {
 /**
  * Activate the file browser.
  */
-function activateFileBrowser(app: Application, provider: JupyterServices, registry: FileHandlerRegistry): Promise<void> {
+function activateFileBrowser(app: Application, provider: JupyterServices, registry: DocumentRegistry, tracker: DocumentTracker): Promise<void> {
   let contents = provider.contentsManager;
   let sessions = provider.notebookSessionManager;
   let model = new FileBrowserModel(contents, sessions);
   let widget = new FileBrowserWidget(model, registry);
-  let menu = createMenu(widget);
+  let openWith = new Menu();
+  let menu = createMenu(widget, openWith);
 
   // Add a context menu to the dir listing.
   let node = widget.node.getElementsByClassName('jp-DirListing-content')[0];
   node.addEventListener('contextmenu', (event: MouseEvent) => {
     event.preventDefault();
+    let path = findContextPath(model, event.target as HTMLElement);
+    openWith.items = createOpenWithItems(registry, path);
     let x = event.clientX;
     let y = event.clientY;
     menu.popup(x, y);
   });
 
-  model.fileChanged.connect((mModel, args) => (args: IChangedArgs<string>) => {
+  // Keep the open documents in sync with renames in the browser.
+  model.fileChanged.connect((sender, args) => {
     registry.rename(args.oldValue, args.newValue);
   });
 
@@ -111,46 +119,99 @@ function activateFileBrowser(app: Application, provider: JupyterServices, regist
   ]);
 
 
-  // Temporary file object focus follower.
-  let activeWidget: Widget;
-  let widgets: Widget[] = [];
-  document.body.addEventListener('focus', event => {
-    for (let widget of widgets) {
-      let target = event.target as HTMLElement;
-      if (widget.isAttached && widget.isVisible) {
-        if (widget.node.contains(target)) {
-          activeWidget = widget;
+  // Add the command for saving a document.
+  let saveDocumentId = 'file-operations:save';
+
+  app.commands.add([
+    {
+      id: saveDocumentId,
+      handler: () => {
+        let path = tracker.activePath;
+        if (!path) {
           return;
         }
+        let current = tracker.activeWidget;
+        registry.save(path, current).catch(error => {
+          showError('Save failed', error, current.node);
+        });
       }
     }
-  });
+  ]);
+  app.palette.add([
+    {
+      command: saveDocumentId,
+      category: 'File Operations',
+      text: 'Save Document',
+      caption: 'Save the current document'
+    }
+  ]);
 
-  // Add opened files to the widget list temporarily.
-  registry.opened.connect((r, widget) => {
-    activeWidget = widget;
-    widgets.push(widget);
-  });
+  // Add the command for saving a document under another path.
+  let saveAsId = 'file-operations:save-as';
 
+  app.commands.add([
+    {
+      id: saveAsId,
+      handler: () => {
+        let path = tracker.activePath;
+        if (!path) {
+          return;
+        }
+        let current = tracker.activeWidget;
+        let host = current.node;
+        askPath('Save As', path, 'SAVE', host).then(newPath => {
+          if (!newPath) {
+            return;
+          }
+          return registry.saveAs(path, newPath, current).then(() => {
+            return model.refresh();
+          });
+        }).catch(error => showError('Save failed', error, host));
+      }
+    }
+  ]);
+  app.palette.add([
+    {
+      command: saveAsId,
+      category: 'File Operations',
+      text: 'Save Document As',
+      caption: 'Save the current document under another path'
+    }
+  ]);
 
-  // Add the command for saving a document.
-  let saveDocumentId = 'file-operations:save';
+  // Add the command for renaming or moving a document.
+  let renameId = 'file-operations:rename';
 
   app.commands.add([
     {
-      id: saveDocumentId,
+      id: renameId,
       handler: () => {
-        let path = registry.findPath(activeWidget);
-        if (path) registry.save(path);
+        let path = tracker.activePath;
+        if (!path) {
+          return;
+        }
+        let host = tracker.activeWidget.node;
+        askPath('Rename', path, 'RENAME', host).then(newPath => {
+          if (!newPath || newPath === path) {
+            return;
+          }
+          if (registry.findWidget(newPath)) {
+            throw new Error(`${newPath} is already open`);
+          }
+          return contents.rename(path, newPath).then(() => {
+            registry.rename(path, newPath);
+            return model.refresh();
+          });
+        }).catch(error => showError('Rename failed', error, host));
       }
     }
   ]);
   app.palette.add([
     {
-      command: saveDocumentId,
+      command: renameId,
       category: 'File Operations',
-      text: 'Save Document',
-      caption: 'Save the current document'
+      text: 'Rename Document',
+      caption: 'Rename or move the current document'
     }
   ]);
 
@@ -161,8 +222,14 @@ function activateFileBrowser(app: Application, provider: JupyterServices, regist
     {
       id: revertDocumentId,
       handler: () => {
-        let path = registry.findPath(activeWidget);
-        if (path) registry.revert(path);
+        let path = tracker.activePath;
+        if (!path) {
+          return;
+        }
+        let current = tracker.activeWidget;
+        registry.revert(path, current).catch(error => {
+          showError('Revert failed', error, current.node);
+        });
       }
     }
   ]);
@@ -182,8 +249,14 @@ function activateFileBrowser(app: Application, provider: JupyterServices, regist
     {
       id: closeDocumentId,
       handler: () => {
-        let path = registry.findPath(activeWidget);
-        if (path) registry.close(path);
+        let path = tracker.activePath;
+        if (!path) {
+          return;
+        }
+        let current = tracker.activeWidget;
+        registry.close(path, current).catch(error => {
+          showError('Close failed', error, current.node);
+        });
       }
     }
   ]);
@@ -273,7 +346,7 @@ function activateFileBrowser(app: Application, provider: JupyterServices, regist
 /**
  * Create a context menu for the file browser listing.
  */
-function createMenu(fbWidget: FileBrowserWidget):  Menu {
+function createMenu(fbWidget: FileBrowserWidget, openWith: Menu):  Menu {
   return new Menu([
     new MenuItem({
       text: '&Open',
@@ -281,6 +354,11 @@ function createMenu(fbWidget: FileBrowserWidget):  Menu {
       shortcut: 'Ctrl+O',
       handler: () => { fbWidget.open(); }
     }),
+    new MenuItem({
+      text: 'Open &With',
+      type: MenuItem.Submenu,
+      submenu: openWith
+    }),
     new MenuItem({
       text: '&Rename',
       icon: 'fa fa-edit',
@@ -328,3 +406,90 @@ function createMenu(fbWidget: FileBrowserWidget):  Menu {
     })
   ]);
 }
+
+
+/**
+ * Ask the user for a new path for a document.
+ *
+ * @returns A promise which resolves with the path, or an empty string
+ *   if the user cancels.
+ *
+ * #### Notes
+ * Paths are relative to the server root, a leading slash is ignored.
+ */
+function askPath(title: string, path: string, okText: string, host: HTMLElement): Promise<string> {
+  let input = document.createElement('input');
+  input.value = path;
+  return showDialog({ title, body: input, host, okText }).then(result => {
+    if (!result || result.text !== okText) {
+      return '';
+    }
+    return input.value.trim().replace(/^\/+/, '');
+  });
+}
+
+
+/**
+ * Find the path of the file targeted by a context menu event.
+ *
+ * #### Notes
+ * The item under the pointer is used, falling back to the first selected
+ * item.  Directories are ignored.
+ */
+function findContextPath(model: FileBrowserModel, target: HTMLElement): string {
+  let name = '';
+  while (target && !target.classList.contains('jp-DirListing-content')) {
+    if (target.classList.contains('jp-DirListing-item')) {
+      let text = target.getElementsByClassName('jp-DirListing-itemText')[0];
+      name = text ? text.textContent : '';
+      break;
+    }
+    target = target.parentElement;
+  }
+  name = name || model.getSelected()[0];
+  for (let item of model.sortedItems) {
+    if (item.name === name && item.type !== 'directory') {
+      return item.path;
+    }
+  }
+  return '';
+}
+
+
+/**
+ * Create the "Open With" menu items for a path.
+ *
+ * #### Notes
+ * Opening a file with a handler does not change the default handler for
+ * the file extension, the default is set with a separate item.  The
+ * default handler for the extension is checked.
+ */
+function createOpenWithItems(registry: DocumentRegistry, path: string): MenuItem[] {
+  if (!path) {
+    return [new MenuItem({ text: 'No File Selected', disabled: true })];
+  }
+  let ext = '.' + path.split('.').pop();
+  let names = registry.listHandlers(path);
+  let preferred = registry.preferredHandler(ext);
+  let items = names.map(name => {
+    return new MenuItem({
+      text: name,
+      handler: () => { registry.openWith(path, name); }
+    });
+  });
+  items.push(new MenuItem({ type: MenuItem.Separator }));
+  for (let name of names) {
+    items.push(new MenuItem({
+      text: `Always Open ${ext} With ${name}`,
+      type: MenuItem.Check,
+      checked: name === preferred,
+      handler: () => { registry.setPreferredHandler(ext, name); }
+    }));
+  }
+  items.push(new MenuItem({
+    text: `Reset Default for ${ext}`,
+    disabled: !preferred,
+    handler: () => { registry.setPreferredHandler(ext, ''); }
+  }));
+  return items;
+}
@@ -14,16 +14,48 @@ import {
   JupyterServices
 } from '../services/plugin';
 
+import {
+  DocumentRegistry
+} from './registry';
+
+
+/**
+ * The interval in milliseconds between checks for documents changed on
+ * disk.
+ */
+const CHECK_INTERVAL = 30000;
+
+
+/**
+ * The default document registry provider.
+ *
+ * #### Notes
+ * The document registry is the same object as the file handler registry
+ * given by [[fileHandlerProvider]].
+ */
+export
+const documentRegistryProvider = {
+  id: 'jupyter.services.documentRegistry',
+  provides: DocumentRegistry,
+  resolve: () => {
+    return Private.getRegistry();
+  }
+};
+
 
 /**
  * The default document manager provider.
+ *
+ * #### Notes
+ * This provides the document registry as a plain file handler registry,
+ * so it works with or without [[documentRegistryProvider]].
  */
 export
 const fileHandlerProvider = {
   id: 'jupyter.services.fileHandlerRegistry',
   provides: FileHandlerRegistry,
   resolve: () => {
-    return new FileHandlerRegistry();
+    return Private.getRegistry();
   }
 };
 
@@ -47,7 +79,11 @@ function activateFileHandler(app: Application, registry: FileHandlerRegistry, se
   let dirCreator = new FileCreator(contents, 'directory');
   let fileCreator = new FileCreator(contents, 'file');
 
-  registry.addDefaultHandler(fileHandler);
+  if (registry instanceof DocumentRegistry) {
+    registry.addDefaultHandler(fileHandler, { name: 'Editor' });
+  } else {
+    registry.addDefaultHandler(fileHandler);
+  }
   registry.addCreator(
     'New Directory', dirCreator.createNew.bind(dirCreator));
   registry.addCreator('New File', fileCreator.createNew.bind(fileCreator));
@@ -61,5 +97,33 @@ function activateFileHandler(app: Application, registry: FileHandlerRegistry, se
       });
     }
   }]);
+
+  // Periodically flag the open documents changed on disk.
+  if (registry instanceof DocumentRegistry) {
+    (registry as DocumentRegistry).startChecking(CHECK_INTERVAL);
+  }
+
   return Promise.resolve(void 0);
 };
+
+
+/**
+ * A namespace for file handler private data.
+ */
+namespace Private {
+  /**
+   * The document registry shared by the providers.
+   */
+  let registry: DocumentRegistry = null;
+
+  /**
+   * Get the shared document registry, creating it the first time.
+   */
+  export
+  function getRegistry(): DocumentRegistry {
+    if (!registry) {
+      registry = new DocumentRegistry();
+    }
+    return registry;
+  }
+}
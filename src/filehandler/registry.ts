@@ -0,0 +1,767 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IContentsManager, IContentsModel
+} from 'jupyter-js-services';
+
+import {
+  IButtonItem, cancelButton, showDialog
+} from 'jupyter-js-ui/lib/dialog';
+
+import {
+  AbstractFileHandler, FileHandlerRegistry
+} from 'jupyter-js-ui/lib/filehandler';
+
+import {
+  Property
+} from 'phosphor-properties';
+
+import {
+  ISignal, Signal, clearSignalData
+} from 'phosphor-signaling';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The local storage key for the preferred handlers.
+ */
+const PREFERENCES_KEY = 'jupyter.openWith';
+
+/**
+ * The class name added to the titles of documents changed on disk.
+ */
+const CONFLICT_CLASS = 'jp-mod-conflict';
+
+
+/**
+ * The options used to register a file handler.
+ */
+export
+interface IHandlerOptions {
+  /**
+   * The unique display name of the handler, e.g. `'Notebook'`.
+   */
+  name: string;
+
+  /**
+   * Whether the handler is only used when it is chosen explicitly.
+   *
+   * #### Notes
+   * An explicit handler is never picked by extension when opening a
+   * file, even if it supports the file extension.  The default is
+   * `false`.
+   */
+  explicit?: boolean;
+}
+
+
+/**
+ * A file handler registry which can open files with a named handler.
+ *
+ * #### Notes
+ * The handler preferred for a file extension is remembered in local
+ * storage and is used when a file with that extension is opened.
+ *
+ * The last modified time of each open document is remembered when it is
+ * loaded, saved or reverted.  Saving a document whose file has changed
+ * on the server since then asks the user how to resolve the conflict.
+ */
+export
+class DocumentRegistry extends FileHandlerRegistry {
+  /**
+   * Construct a new document registry.
+   */
+  constructor() {
+    super();
+    this._preferences = Private.loadPreferences();
+  }
+
+  /**
+   * A signal emitted when an open document is found changed on disk.
+   *
+   * #### Notes
+   * The argument is the path of the document.
+   */
+  get conflictDetected(): ISignal<DocumentRegistry, string> {
+    return Private.conflictDetectedSignal.bind(this);
+  }
+
+  /**
+   * Test whether the registry is disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Dispose of the resources held by the registry.
+   *
+   * #### Notes
+   * This stops the periodic checks for changes on disk.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this.stopChecking();
+    clearSignalData(this);
+  }
+
+  /**
+   * Register a file handler.
+   *
+   * @param handler - The file handler to register.
+   *
+   * @param options - The options for the handler.  A handler registered
+   *   without options is named after its file extensions.
+   */
+  addHandler(handler: AbstractFileHandler<Widget>, options?: IHandlerOptions): void {
+    if (this._handlerList.indexOf(handler) !== -1) {
+      return;
+    }
+    options = options || {
+      name: handler.fileExtensions.join(', ') || 'Default'
+    };
+    if (this.findHandlerByName(options.name)) {
+      throw new Error(`A handler named '${options.name}' is already registered`);
+    }
+    this._handlerList.push(handler);
+    this._options.push({ name: options.name, explicit: !!options.explicit });
+    handler.opened.connect(this._onOpened, this);
+    super.addHandler(handler);
+  }
+
+  /**
+   * Register the default file handler.
+   *
+   * @param handler - The file handler used for unknown file types.
+   *
+   * @param options - The options for the handler.
+   */
+  addDefaultHandler(handler: AbstractFileHandler<Widget>, options?: IHandlerOptions): void {
+    this.addHandler(handler, options || { name: 'Editor' });
+    super.addDefaultHandler(handler);
+    this._defaultHandler = handler;
+  }
+
+  /**
+   * List the names of the handlers which can open a path.
+   *
+   * @param path - The path of the file.
+   *
+   * @returns The names of the handlers supporting the file extension,
+   *   followed by the default handler.
+   */
+  listHandlers(path: string): string[] {
+    let ext = Private.extname(path);
+    let names: string[] = [];
+    for (let i = 0; i < this._handlerList.length; i++) {
+      let handler = this._handlerList[i];
+      if (handler === this._defaultHandler) {
+        continue;
+      }
+      if (handler.fileExtensions.indexOf(ext) !== -1) {
+        names.push(this._options[i].name);
+      }
+    }
+    if (this._defaultHandler) {
+      names.push(this.handlerName(this._defaultHandler));
+    }
+    return names;
+  }
+
+  /**
+   * Get the name of the preferred handler for a file extension.
+   *
+   * @param ext - The file extension, including the leading dot.
+   *
+   * @returns The name of the preferred handler, or an empty string.
+   */
+  preferredHandler(ext: string): string {
+    return this._preferences[ext] || '';
+  }
+
+  /**
+   * Set the preferred handler for a file extension.
+   *
+   * @param ext - The file extension, including the leading dot.
+   *
+   * @param name - The name of the handler, or an empty string to clear
+   *   the preference.
+   */
+  setPreferredHandler(ext: string, name: string): void {
+    if (name) {
+      this._preferences[ext] = name;
+    } else {
+      delete this._preferences[ext];
+    }
+    Private.savePreferences(this._preferences);
+  }
+
+  /**
+   * Find a registered file handler by name.
+   *
+   * @param name - The name of the handler.
+   *
+   * @returns The handler, or `null` if it is not registered.
+   */
+  findHandlerByName(name: string): AbstractFileHandler<Widget> {
+    for (let i = 0; i < this._options.length; i++) {
+      if (this._options[i].name === name) {
+        return this._handlerList[i];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the name of a registered file handler.
+   *
+   * @param handler - The handler of interest.
+   *
+   * @returns The name of the handler, or an empty string.
+   */
+  handlerName(handler: AbstractFileHandler<Widget>): string {
+    let index = this._handlerList.indexOf(handler);
+    return index === -1 ? '' : this._options[index].name;
+  }
+
+  /**
+   * Open a file with a named file handler.
+   *
+   * @param path - The path of the file.
+   *
+   * @param name - The name of the handler.
+   *
+   * @returns The widget for the file.
+   *
+   * #### Notes
+   * An error is thrown if no handler with the name is registered.
+   */
+  openWith(path: string, name: string): Widget {
+    let handler = this.findHandlerByName(name);
+    if (!handler) {
+      throw new Error(`No handler named '${name}'`);
+    }
+    let widget = handler.open(path);
+    this.opened.emit(widget);
+    return widget;
+  }
+
+  /**
+   * Save a file.
+   *
+   * @param path - The path of the open document.
+   *
+   * @param widget - The widget of the document.  The default is the
+   *   first document open at the path.
+   *
+   * @returns A promise which resolves with the saved contents model, or
+   *   `undefined` if the document was not saved.
+   *
+   * #### Notes
+   * A path can be open in several handlers with "Open With", so the
+   * widget should be given when it is known.
+   *
+   * When the file has changed on the server since the document was
+   * loaded, the user chooses whether to overwrite it, reload it, or save
+   * the document under another path.
+   */
+  save(path: string, widget?: Widget): Promise<IContentsModel> {
+    let handler = this._findOwner(path, widget);
+    if (!handler) {
+      return Promise.resolve(void 0);
+    }
+    let key = `${this.handlerName(handler)}:${path}`;
+    if (key in this._prompts) {
+      return this._prompts[key];
+    }
+    return this._checkModified(handler, path).then(changed => {
+      if (!changed) {
+        return this._save(handler, path);
+      }
+      let prompt = this._resolveConflict(handler, path);
+      this._prompts[key] = prompt;
+      let done = () => { delete this._prompts[key]; };
+      prompt.then(done, done);
+      return prompt;
+    });
+  }
+
+  /**
+   * Save a file unless it changed on disk.
+   *
+   * @param path - The path of the open document.
+   *
+   * @param widget - The widget of the document.  The default is the
+   *   first document open at the path.
+   *
+   * @returns A promise which resolves with the saved contents model, or
+   *   `undefined` if the document was not saved.
+   *
+   * #### Notes
+   * This never prompts the user, so it is safe to call without a user
+   * action.  A document whose file changed is flagged instead of saved,
+   * and is left for the user to resolve with [[save]].
+   */
+  saveIfUnchanged(path: string, widget?: Widget): Promise<IContentsModel> {
+    let handler = this._findOwner(path, widget);
+    if (!handler || Private.conflictProperty.get(handler.findWidget(path))) {
+      return Promise.resolve(void 0);
+    }
+    return this._checkModified(handler, path).then(changed => {
+      return changed ? void 0 : this._save(handler, path);
+    });
+  }
+
+  /**
+   * Save a document under another path.
+   *
+   * @param path - The path of the open document.
+   *
+   * @param newPath - The path to save the document to.
+   *
+   * @param widget - The widget of the document.  The default is the
+   *   first document open at the path.
+   *
+   * @returns A promise which resolves with the saved contents model, or
+   *   `undefined` if the document was not saved.
+   *
+   * #### Notes
+   * The user confirms before an existing file is overwritten.  The open
+   * document follows the new path, the original file is left as it is.
+   */
+  saveAs(path: string, newPath: string, widget?: Widget): Promise<IContentsModel> {
+    let handler = this._findOwner(path, widget);
+    if (!handler) {
+      return Promise.reject<IContentsModel>(new Error(`${path} is not open`));
+    }
+    if (newPath === path) {
+      return this.save(path, widget);
+    }
+    if (this.findWidget(newPath)) {
+      return Promise.reject<IContentsModel>(new Error(`${newPath} is already open`));
+    }
+    widget = handler.findWidget(path);
+    return Private.confirmOverwrite(handler.manager, newPath, widget.node).then(overwrite => {
+      if (!overwrite) {
+        return void 0;
+      }
+      handler.rename(path, newPath);
+      return this._save(handler, newPath).catch(error => {
+        handler.rename(newPath, path);
+        throw error;
+      });
+    });
+  }
+
+  /**
+   * Revert a file.
+   *
+   * @param path - The path of the open document.
+   *
+   * @param widget - The widget of the document.  The default is the
+   *   first document open at the path.
+   *
+   * @returns A promise which resolves with the contents model loaded from
+   *   disk.
+   */
+  revert(path: string, widget?: Widget): Promise<IContentsModel> {
+    let handler = this._findOwner(path, widget);
+    if (!handler) {
+      return Promise.resolve(void 0);
+    }
+    let found = handler.findWidget(path);
+    return handler.revert(path).then(model => {
+      this._record(found, model);
+      return model;
+    });
+  }
+
+  /**
+   * Close a file.
+   *
+   * @param path - The path of the open document.
+   *
+   * @param widget - The widget of the document.  The default is the
+   *   first document open at the path.
+   *
+   * @returns A promise which resolves with whether the document closed.
+   */
+  close(path: string, widget?: Widget): Promise<boolean> {
+    let handler = this._findOwner(path, widget);
+    return handler ? handler.close(path) : Promise.resolve(false);
+  }
+
+  /**
+   * Test whether an open document was found changed on disk.
+   *
+   * @param path - The path of the open document.
+   *
+   * @param widget - The widget of the document.  The default is the
+   *   first document open at the path.
+   */
+  isConflicted(path: string, widget?: Widget): boolean {
+    let handler = this._findOwner(path, widget);
+    if (!handler) {
+      return false;
+    }
+    return Private.conflictProperty.get(handler.findWidget(path));
+  }
+
+  /**
+   * Check the open documents for changes on disk.
+   *
+   * @returns A promise which resolves when every document is checked.
+   *
+   * #### Notes
+   * Documents whose file changed are flagged and [[conflictDetected]]
+   * is emitted for them.  Documents which cannot be checked are skipped.
+   * The documents are checked one at a time.
+   */
+  checkForChanges(): Promise<void> {
+    let done = Promise.resolve(false);
+    for (let i = 0; i < this._handlerList.length; i++) {
+      let handler = this._handlerList[i];
+      let documents = (this._documents[i] || []).filter(w => {
+        return !!handler.findPath(w);
+      });
+      this._documents[i] = documents;
+      for (let widget of documents) {
+        done = done.then(() => {
+          let path = handler.findPath(widget);
+          if (!path || Private.conflictProperty.get(widget)) {
+            return false;
+          }
+          return this._checkModified(handler, path);
+        });
+      }
+    }
+    return done.then(() => void 0);
+  }
+
+  /**
+   * Check the open documents for changes on disk periodically.
+   *
+   * @param interval - The interval between the checks, in ms.
+   *
+   * #### Notes
+   * This replaces the previous interval.  The checks stop when the
+   * registry is disposed.
+   */
+  startChecking(interval: number): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this.stopChecking();
+    this._checkId = setInterval(() => { this.checkForChanges(); }, interval);
+  }
+
+  /**
+   * Stop the periodic checks for changes on disk.
+   */
+  stopChecking(): void {
+    if (this._checkId !== -1) {
+      clearInterval(this._checkId);
+      this._checkId = -1;
+    }
+  }
+
+  /**
+   * Find the file handler used to open a path.
+   *
+   * #### Notes
+   * The preferred handler for the file extension is used if there is
+   * one.  Otherwise, explicit handlers are skipped when a non-explicit
+   * handler supports the file extension.
+   */
+  protected findHandler(path: string): AbstractFileHandler<Widget> {
+    let ext = Private.extname(path);
+    let preferred = this.findHandlerByName(this.preferredHandler(ext));
+    if (preferred) {
+      return preferred;
+    }
+    for (let i = 0; i < this._handlerList.length; i++) {
+      let handler = this._handlerList[i];
+      if (this._options[i].explicit) {
+        continue;
+      }
+      if (handler.fileExtensions.indexOf(ext) !== -1) {
+        return handler;
+      }
+    }
+    return super.findHandler(path);
+  }
+
+  /**
+   * Handle a document opened by a file handler.
+   *
+   * #### Notes
+   * The handlers do not share the contents they load, so the last
+   * modified time is fetched alongside the contents.
+   */
+  private _onOpened(handler: AbstractFileHandler<Widget>, widget: Widget): void {
+    let index = this._handlerList.indexOf(handler);
+    let documents = (this._documents[index] || []).filter(w => {
+      return w !== widget && !!handler.findPath(w);
+    });
+    documents.push(widget);
+    this._documents[index] = documents;
+    let path = handler.findPath(widget);
+    handler.manager.get(path, { content: false }).then(model => {
+      if (handler.findPath(widget) === path) {
+        this._record(widget, model);
+      }
+    }, error => void 0);
+  }
+
+  /**
+   * Find the file handler which has a path open.
+   *
+   * #### Notes
+   * When a widget is given, only the handler which has the path open in
+   * that widget is found.
+   */
+  private _findOwner(path: string, widget?: Widget): AbstractFileHandler<Widget> {
+    for (let handler of this._handlerList) {
+      let found = handler.findWidget(path);
+      if (found && (!widget || found === widget)) {
+        return handler;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Remember the last modified time of a document.
+   *
+   * #### Notes
+   * This clears the conflict flag of the document.
+   */
+  private _record(widget: Widget, model: IContentsModel): void {
+    Private.modifiedProperty.set(widget, model ? model.last_modified : '');
+    Private.conflictProperty.set(widget, false);
+  }
+
+  /**
+   * Test whether the file of a document changed on disk.
+   *
+   * #### Notes
+   * A changed document is flagged.  A file which no longer exists has
+   * not changed, saving it creates it again.
+   */
+  private _checkModified(handler: AbstractFileHandler<Widget>, path: string): Promise<boolean> {
+    let widget = handler.findWidget(path);
+    let known = Private.modifiedProperty.get(widget);
+    if (!known) {
+      return Promise.resolve(false);
+    }
+    return handler.manager.get(path, { content: false }).then(model => {
+      if (handler.findPath(widget) !== path) {
+        return false;
+      }
+      let changed = model.last_modified !== known;
+      if (changed && !Private.conflictProperty.get(widget)) {
+        Private.conflictProperty.set(widget, true);
+        this.conflictDetected.emit(path);
+      }
+      return changed;
+    }, error => false);
+  }
+
+  /**
+   * Save a document and remember its last modified time.
+   */
+  private _save(handler: AbstractFileHandler<Widget>, path: string): Promise<IContentsModel> {
+    let widget = handler.findWidget(path);
+    return handler.save(path).then(model => {
+      this._record(widget, model);
+      return model;
+    });
+  }
+
+  /**
+   * Ask the user how to save a document changed on disk.
+   */
+  private _resolveConflict(handler: AbstractFileHandler<Widget>, path: string): Promise<IContentsModel> {
+    let widget = handler.findWidget(path);
+    let buttons: IButtonItem[] = [
+      cancelButton,
+      { text: 'SAVE AS', className: 'jp-Dialog-okButton' },
+      { text: 'RELOAD', className: 'jp-Dialog-okButton' },
+      { text: 'OVERWRITE', className: 'jp-Dialog-okButton' }
+    ];
+    return showDialog({
+      title: 'File changed on disk',
+      body: Private.createBody(
+        `"${path}" has changed on disk since it was loaded.  ` +
+        'Overwrite it, reload it and lose your changes, or save ' +
+        'your changes to another file?'
+      ),
+      host: widget.node,
+      buttons
+    }).then(result => {
+      switch (result ? result.text : '') {
+      case 'OVERWRITE':
+        return this._save(handler, path);
+      case 'RELOAD':
+        return this.revert(path, widget);
+      case 'SAVE AS':
+        return Private.askPath(path, widget.node).then(newPath => {
+          return newPath ? this.saveAs(path, newPath, widget) : void 0;
+        });
+      default:
+        return void 0;
+      }
+    });
+  }
+
+  private _handlerList: AbstractFileHandler<Widget>[] = [];
+  private _options: IHandlerOptions[] = [];
+  private _documents: Widget[][] = [];
+  private _defaultHandler: AbstractFileHandler<Widget> = null;
+  private _preferences: { [ext: string]: string } = null;
+  private _prompts: { [path: string]: Promise<IContentsModel> } = Object.create(null);
+  private _checkId = -1;
+  private _isDisposed = false;
+}
+
+
+/**
+ * A namespace for document registry private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when an open document is found changed on disk.
+   */
+  export
+  const conflictDetectedSignal = new Signal<DocumentRegistry, string>();
+
+  /**
+   * An attached property with the last modified time of a document.
+   */
+  export
+  const modifiedProperty = new Property<Widget, string>({
+    name: 'lastModified',
+    value: ''
+  });
+
+  /**
+   * An attached property with the conflict state of a document.
+   */
+  export
+  const conflictProperty = new Property<Widget, boolean>({
+    name: 'conflict',
+    value: false,
+    changed: (widget, oldValue, newValue) => {
+      let names = widget.title.className.split(/\s+/).filter(name => {
+        return name && name !== CONFLICT_CLASS;
+      });
+      if (newValue) {
+        names.push(CONFLICT_CLASS);
+      }
+      widget.title.className = names.join(' ');
+    }
+  });
+
+  /**
+   * Create the body of a dialog from plain text.
+   *
+   * #### Notes
+   * A string body is parsed as HTML by the dialog, the text of a node
+   * is not, so the paths in the text are shown as they are.
+   */
+  export
+  function createBody(text: string): HTMLElement {
+    let body = document.createElement('span');
+    body.textContent = text;
+    return body;
+  }
+
+  /**
+   * Ask the user for the path to save a document to.
+   *
+   * @returns A promise which resolves with the path, or an empty string
+   *   if the user cancels.
+   */
+  export
+  function askPath(path: string, host: HTMLElement): Promise<string> {
+    let input = document.createElement('input');
+    input.value = path;
+    return showDialog({
+      title: 'Save As',
+      body: input,
+      host,
+      okText: 'SAVE'
+    }).then(result => {
+      if (!result || result.text !== 'SAVE') {
+        return '';
+      }
+      return input.value.trim();
+    });
+  }
+
+  /**
+   * Confirm with the user before a file is overwritten.
+   *
+   * @returns A promise which resolves with whether to write the file.
+   */
+  export
+  function confirmOverwrite(contents: IContentsManager, path: string, host: HTMLElement): Promise<boolean> {
+    return contents.get(path, { content: false }).then(() => {
+      return showDialog({
+        title: 'Overwrite file?',
+        body: createBody(`"${path}" already exists, overwrite it?`),
+        host,
+        okText: 'OVERWRITE'
+      }).then(result => !!result && result.text === 'OVERWRITE');
+    }, () => true);
+  }
+
+  /**
+   * Get the file extension of a path, including the leading dot.
+   */
+  export
+  function extname(path: string): string {
+    return '.' + path.split('.').pop();
+  }
+
+  /**
+   * Load the preferred handlers from local storage.
+   */
+  export
+  function loadPreferences(): { [ext: string]: string } {
+    let preferences: { [ext: string]: string } = Object.create(null);
+    try {
+      let value = JSON.parse(window.localStorage.getItem(PREFERENCES_KEY));
+      for (let ext in value || {}) {
+        if (typeof value[ext] === 'string') preferences[ext] = value[ext];
+      }
+    } catch (error) {
+      // Invalid preferences are ignored.
+    }
+    return preferences;
+  }
+
+  /**
+   * Save the preferred handlers to local storage.
+   *
+   * #### Notes
+   * The preferences are kept for the session when the storage is full
+   * or unavailable.
+   */
+  export
+  function savePreferences(preferences: { [ext: string]: string }): void {
+    try {
+      window.localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+    } catch (error) {
+      // The preferences in memory are still used.
+    }
+  }
+}
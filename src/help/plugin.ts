@@ -6,10 +6,18 @@ import {
   Application
 } from 'phosphide/lib/core/application';
 
+import {
+  ShortcutManager
+} from '../shortcuts/manager';
+
 import {
   IFrame
 } from './iframe';
 
+import {
+  ShortcutsWidget
+} from './shortcuts';
+
 
 /**
  * The class name added to the help widget.
@@ -51,6 +59,7 @@ const COMMANDS = [
 export
 const helpHandlerExtension = {
   id: 'jupyter.extensions.helpHandler',
+  requires: [ShortcutManager],
   activate: activateHelpHandler
 };
 
@@ -60,9 +69,11 @@ const helpHandlerExtension = {
  *
  * @param app - The phosphide application object.
  *
+ * @param shortcuts - The shortcut manager used by the shortcut reference.
+ *
  * returns A promise that resolves when the extension is activated.
  */
-function activateHelpHandler(app: Application): Promise<void> {
+function activateHelpHandler(app: Application, shortcuts: ShortcutManager): Promise<void> {
   let widget = new IFrame();
   widget.addClass(HELP_CLASS);
   widget.title.text = 'Help';
@@ -107,6 +118,23 @@ function activateHelpHandler(app: Application): Promise<void> {
 
   app.palette.add(helpPaletteItems);
 
+  let shortcutsWidget: ShortcutsWidget = null;
+
+  app.commands.add([
+    {
+      id: 'help-doc:shortcuts',
+      handler: showShortcuts
+    }
+  ]);
+  app.palette.add([
+    {
+      command: 'help-doc:shortcuts',
+      text: 'Keyboard Shortcuts',
+      caption: 'Show the keyboard shortcut reference',
+      category: 'Help'
+    }
+  ]);
+
   return Promise.resolve(void 0);
 
   function attachHelp(): void {
@@ -121,6 +149,18 @@ function activateHelpHandler(app: Application): Promise<void> {
     if (!widget.isHidden) app.shell.collapseRight();
   }
 
+  function showShortcuts(): void {
+    if (!shortcutsWidget || shortcutsWidget.isDisposed) {
+      shortcutsWidget = new ShortcutsWidget(shortcuts, app.palette.model);
+      shortcutsWidget.id = 'help-shortcuts';
+      shortcutsWidget.title.text = 'Keyboard Shortcuts';
+      shortcutsWidget.title.closable = true;
+    }
+    if (!shortcutsWidget.isAttached) app.shell.addToMainArea(shortcutsWidget);
+    app.shell.activateMain(shortcutsWidget.id);
+    shortcutsWidget.searchNode.focus();
+  }
+
   function toggleHelp(): void {
     if (widget.isHidden) {
       showHelp();
@@ -0,0 +1,320 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IShortcutItem
+} from 'phosphide/lib/services/shortcutregistry';
+
+import {
+  AbstractPaletteModel, StandardPaletteModel
+} from 'phosphor-commandpalette';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  ShortcutManager
+} from '../shortcuts/manager';
+
+
+/**
+ * The class name added to shortcuts widgets.
+ */
+const SHORTCUTS_CLASS = 'jp-Shortcuts';
+
+/**
+ * The class name added to the search input of a shortcuts widget.
+ */
+const SEARCH_CLASS = 'jp-Shortcuts-search';
+
+/**
+ * The class name added to the content node of a shortcuts widget.
+ */
+const CONTENT_CLASS = 'jp-Shortcuts-content';
+
+/**
+ * The class name added to a shortcut context section.
+ */
+const SECTION_CLASS = 'jp-Shortcuts-section';
+
+/**
+ * The class name added to the keys cell of a shortcut row.
+ */
+const KEYS_CLASS = 'jp-Shortcuts-keys';
+
+/**
+ * The class name added to the empty message node.
+ */
+const EMPTY_CLASS = 'jp-Shortcuts-empty';
+
+/**
+ * The shortcut contexts, in display order.
+ *
+ * #### Notes
+ * A shortcut belongs to the first context whose test matches its
+ * selector.
+ */
+const CONTEXTS = [
+  {
+    title: 'Global',
+    test: (selector: string) => /^body\b/.test(selector)
+  },
+  {
+    title: 'Notebook Command Mode',
+    test: (selector: string) => selector.indexOf('jp-mod-commandMode') !== -1
+  },
+  {
+    title: 'Notebook Edit Mode',
+    test: (selector: string) => selector.indexOf('jp-mod-editMode') !== -1
+  },
+  {
+    title: 'Notebook',
+    test: (selector: string) => selector.indexOf('jp-Notebook') !== -1
+  },
+  {
+    title: 'Image',
+    test: (selector: string) => selector.indexOf('jp-ImageWidget') !== -1
+  },
+  {
+    title: 'Document',
+    test: (selector: string) => selector.indexOf('jp-Document') !== -1
+  },
+  {
+    title: 'Other',
+    test: (selector: string) => true
+  }
+];
+
+
+/**
+ * A widget which displays a searchable reference of the keyboard
+ * shortcuts.
+ *
+ * #### Notes
+ * The widget is regenerated whenever the shortcuts or the palette
+ * items change.
+ */
+export
+class ShortcutsWidget extends Widget {
+  /**
+   * Create a new node for the widget.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let search = document.createElement('input');
+    search.className = SEARCH_CLASS;
+    search.placeholder = 'Search shortcuts';
+    let content = document.createElement('div');
+    content.className = CONTENT_CLASS;
+    node.appendChild(search);
+    node.appendChild(content);
+    return node;
+  }
+
+  /**
+   * Construct a new shortcuts widget.
+   *
+   * @param manager - The shortcut manager holding the shortcuts.
+   *
+   * @param palette - The palette model used to describe the commands.
+   */
+  constructor(manager: ShortcutManager, palette: AbstractPaletteModel) {
+    super();
+    this.addClass(SHORTCUTS_CLASS);
+    this._manager = manager;
+    this._palette = palette;
+    manager.shortcutsChanged.connect(this._onChanged, this);
+    palette.changed.connect(this._onChanged, this);
+    this.update();
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._manager.shortcutsChanged.disconnect(this._onChanged, this);
+    this._palette.changed.disconnect(this._onChanged, this);
+    this._manager = null;
+    this._palette = null;
+    super.dispose();
+  }
+
+  /**
+   * Get the search input node.
+   */
+  get searchNode(): HTMLInputElement {
+    return this.node.getElementsByClassName(SEARCH_CLASS)[0] as HTMLInputElement;
+  }
+
+  /**
+   * Handle the DOM events for the widget.
+   *
+   * @param event - The DOM event sent to the widget.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the widget's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'input') {
+      this.update();
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.searchNode.addEventListener('input', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.searchNode.removeEventListener('input', this);
+    super.onBeforeDetach(msg);
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let content = this.node.getElementsByClassName(CONTENT_CLASS)[0];
+    content.textContent = '';
+    let query = this.searchNode.value.trim().toLowerCase();
+    let info = Private.paletteInfo(this._palette);
+    let groups: IShortcutItem[][] = CONTEXTS.map(() => []);
+    for (let item of this._manager.shortcuts) {
+      let entry = info[item.command];
+      let text = [
+        Private.formatSequence(item.sequence),
+        item.command,
+        entry ? entry.text : '',
+        entry ? entry.category : ''
+      ].join(' ').toLowerCase();
+      if (query && text.indexOf(query) === -1) {
+        continue;
+      }
+      for (let i = 0; i < CONTEXTS.length; ++i) {
+        if (CONTEXTS[i].test(item.selector)) {
+          groups[i].push(item);
+          break;
+        }
+      }
+    }
+    let count = 0;
+    groups.forEach((items, i) => {
+      if (items.length === 0) {
+        return;
+      }
+      count += items.length;
+      content.appendChild(Private.createSection(CONTEXTS[i].title, items, info));
+    });
+    if (count === 0) {
+      let empty = document.createElement('div');
+      empty.className = EMPTY_CLASS;
+      empty.textContent = 'No matching shortcuts';
+      content.appendChild(empty);
+    }
+  }
+
+  /**
+   * Handle a change to the shortcuts or the palette items.
+   */
+  private _onChanged(): void {
+    this.update();
+  }
+
+  private _manager: ShortcutManager = null;
+  private _palette: AbstractPaletteModel = null;
+}
+
+
+/**
+ * A namespace for shortcuts widget private data.
+ */
+namespace Private {
+  /**
+   * The palette description of a command.
+   */
+  export
+  interface IPaletteInfo {
+    text: string;
+    category: string;
+  }
+
+  /**
+   * Get the palette descriptions of the commands, keyed by command id.
+   */
+  export
+  function paletteInfo(palette: AbstractPaletteModel): { [command: string]: IPaletteInfo } {
+    let info: { [command: string]: IPaletteInfo } = Object.create(null);
+    if (!(palette instanceof StandardPaletteModel)) {
+      return info;
+    }
+    for (let item of (palette as StandardPaletteModel).items()) {
+      if (typeof item.args === 'string') {
+        info[item.args] = { text: item.text, category: item.category };
+      }
+    }
+    return info;
+  }
+
+  /**
+   * Format a key sequence for display.
+   */
+  export
+  function formatSequence(sequence: string[]): string {
+    let accel = /Mac/.test(navigator.platform) ? 'Cmd' : 'Ctrl';
+    return sequence.map(keystroke => {
+      return keystroke.trim().replace(/\s+/g, '-').replace('Accel', accel);
+    }).join(', ');
+  }
+
+  /**
+   * Create the node for a context section.
+   */
+  export
+  function createSection(title: string, items: IShortcutItem[], info: { [command: string]: IPaletteInfo }): HTMLElement {
+    let section = document.createElement('div');
+    section.className = SECTION_CLASS;
+    let header = document.createElement('h2');
+    header.textContent = title;
+    section.appendChild(header);
+    let table = document.createElement('table');
+    let head = table.createTHead().insertRow();
+    for (let text of ['Keys', 'Command', 'Category']) {
+      let cell = document.createElement('th');
+      cell.textContent = text;
+      head.appendChild(cell);
+    }
+    let body = table.createTBody();
+    for (let item of items) {
+      let entry = info[item.command];
+      let row = body.insertRow();
+      let keys = row.insertCell();
+      keys.className = KEYS_CLASS;
+      keys.textContent = formatSequence(item.sequence);
+      keys.title = item.selector;
+      let command = row.insertCell();
+      command.textContent = entry ? entry.text : item.command;
+      command.title = item.command;
+      let category = row.insertCell();
+      category.textContent = entry ? entry.category : '';
+    }
+    section.appendChild(table);
+    return section;
+  }
+}
@@ -3,11 +3,15 @@
 'use strict';
 
 import {
-  IContentsModel, IContentsOpts
+  IContentsManager, IContentsModel, IContentsOpts
 } from 'jupyter-js-services';
 
 import {
-  AbstractFileHandler, FileHandlerRegistry
+  showDialog
+} from 'jupyter-js-ui/lib/dialog';
+
+import {
+  AbstractFileHandler
 } from 'jupyter-js-ui/lib/filehandler';
 
 import {
@@ -15,13 +19,25 @@ import {
 } from 'phosphide/lib/core/application';
 
 import {
-  Widget
-} from 'phosphor-widget';
+  showError
+} from '../dialog';
+
+import {
+  DocumentTracker
+} from '../documenttracker/plugin';
+
+import {
+  DocumentRegistry
+} from '../filehandler/registry';
 
 import {
   JupyterServices
 } from '../services/plugin';
 
+import {
+  ImageWidget
+} from './widget';
+
 
 /**
  * The image file handler extension.
@@ -29,17 +45,199 @@ import {
 export
 const imageHandlerExtension = {
   id: 'jupyter.extensions.imageHandler',
-  requires: [FileHandlerRegistry, JupyterServices],
-  activate: (app: Application, registry: FileHandlerRegistry, services: JupyterServices) => {
-    let handler = new ImageHandler(services.contentsManager);
-    registry.addHandler(handler);
-    return Promise.resolve(void 0);
-  }
+  requires: [DocumentRegistry, JupyterServices, DocumentTracker],
+  activate: activateImageHandler
 };
 
 
+/**
+ * Activate the image file handler and the image commands.
+ */
+function activateImageHandler(app: Application, registry: DocumentRegistry, services: JupyterServices, tracker: DocumentTracker): Promise<void> {
+  let handler = new ImageHandler(services.contentsManager);
+  registry.addHandler(handler, { name: 'Image' });
+
+  let commands = [
+    {
+      id: 'image-widget:zoom-in',
+      text: 'Zoom In',
+      caption: 'Zoom in on the image',
+      action: (widget: ImageWidget) => { widget.zoomIn(); }
+    },
+    {
+      id: 'image-widget:zoom-out',
+      text: 'Zoom Out',
+      caption: 'Zoom out of the image',
+      action: (widget: ImageWidget) => { widget.zoomOut(); }
+    },
+    {
+      id: 'image-widget:reset-zoom',
+      text: 'Actual Size',
+      caption: 'Show the image at its natural size',
+      action: (widget: ImageWidget) => { widget.resetZoom(); }
+    },
+    {
+      id: 'image-widget:fit',
+      text: 'Fit to Window',
+      caption: 'Scale the image to fit the window',
+      action: (widget: ImageWidget) => { widget.fitToWindow(); }
+    },
+    {
+      id: 'image-widget:rotate-clockwise',
+      text: 'Rotate Clockwise',
+      caption: 'Rotate the image a quarter turn clockwise',
+      action: (widget: ImageWidget) => { widget.rotate(); }
+    },
+    {
+      id: 'image-widget:rotate-counterclockwise',
+      text: 'Rotate Counterclockwise',
+      caption: 'Rotate the image a quarter turn counterclockwise',
+      action: (widget: ImageWidget) => { widget.rotate(false); }
+    },
+    {
+      id: 'image-widget:flip-horizontal',
+      text: 'Flip Horizontally',
+      caption: 'Mirror the image left to right',
+      action: (widget: ImageWidget) => { widget.flipHorizontal(); }
+    },
+    {
+      id: 'image-widget:flip-vertical',
+      text: 'Flip Vertically',
+      caption: 'Mirror the image top to bottom',
+      action: (widget: ImageWidget) => { widget.flipVertical(); }
+    },
+    {
+      id: 'image-widget:reload',
+      text: 'Reload Image',
+      caption: 'Reload the image from disk',
+      action: (widget: ImageWidget) => { reloadImage(widget); }
+    },
+    {
+      id: 'image-widget:crop',
+      text: 'Crop Image',
+      caption: 'Crop the image to a rectangle',
+      action: (widget: ImageWidget) => { cropImage(widget); }
+    },
+    {
+      id: 'image-widget:resize',
+      text: 'Resize Image',
+      caption: 'Scale the image to a new size',
+      action: (widget: ImageWidget) => { resizeImage(widget); }
+    },
+    {
+      id: 'image-widget:save-as-png',
+      text: 'Save a Copy as PNG',
+      caption: 'Convert the image to PNG and save it as a new file',
+      action: (widget: ImageWidget) => { convertImage(widget, 'image/png'); }
+    },
+    {
+      id: 'image-widget:save-as-jpeg',
+      text: 'Save a Copy as JPEG',
+      caption: 'Convert the image to JPEG and save it as a new file',
+      action: (widget: ImageWidget) => { convertImage(widget, 'image/jpeg'); }
+    }
+  ];
+
+  app.commands.add(commands.map(command => {
+    return {
+      id: command.id,
+      handler: () => {
+        let widget = tracker.activeWidget;
+        if (widget instanceof ImageWidget) {
+          command.action(widget);
+        }
+      }
+    };
+  }));
+  app.palette.add(commands.map(command => {
+    return {
+      command: command.id,
+      category: 'Image',
+      text: command.text,
+      caption: command.caption
+    };
+  }));
+
+  return Promise.resolve(void 0);
+
+  function reloadImage(widget: ImageWidget): Promise<void> {
+    let path = handler.findPath(widget);
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return registry.revert(path, widget).then(() => { return void 0; }).catch(error => {
+      return showError('Reload failed', error, widget.node);
+    });
+  }
+
+  function cropImage(widget: ImageWidget): Promise<void> {
+    let image = widget.image;
+    let form = Private.createForm([
+      ['Left', 0], ['Top', 0],
+      ['Width', image.naturalWidth], ['Height', image.naturalHeight]
+    ]);
+    return Private.showForm('Crop Image', form, 'CROP').then(values => {
+      if (values) {
+        return widget.crop(values[0], values[1], values[2], values[3]);
+      }
+    }).catch(error => showError('Crop failed', error));
+  }
+
+  function resizeImage(widget: ImageWidget): Promise<void> {
+    let image = widget.image;
+    let form = Private.createForm([
+      ['Width', image.naturalWidth], ['Height', image.naturalHeight]
+    ]);
+    Private.linkAspectRatio(form, image.naturalWidth / image.naturalHeight);
+    return Private.showForm('Resize Image', form, 'RESIZE').then(values => {
+      if (values) {
+        return widget.resize(values[0], values[1]);
+      }
+    }).catch(error => showError('Resize failed', error));
+  }
+
+  function convertImage(widget: ImageWidget, mimetype: string): Promise<void> {
+    let path = handler.findPath(widget);
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    let extension = mimetype === 'image/png' ? '.png' : '.jpg';
+    let name = path.split('/').pop();
+    let index = name.lastIndexOf('.');
+    let stem = path.slice(0, path.length - name.length) +
+               (index > 0 ? name.slice(0, index) : name);
+    let newPath = stem + extension;
+    if (newPath === path) {
+      newPath = `${stem}-copy${extension}`;
+    }
+    let contents = services.contentsManager;
+    let content = '';
+    try {
+      content = widget.encode(mimetype);
+    } catch (error) {
+      return showError('Save failed', error);
+    }
+    return Private.confirmOverwrite(contents, newPath).then(overwrite => {
+      if (!overwrite) {
+        return;
+      }
+      let opts: IContentsOpts = { type: 'file', format: 'base64', content };
+      return contents.save(newPath, opts).then(model => {
+        registry.open(model.path);
+      });
+    }).catch(error => showError('Save failed', error));
+  }
+}
+
+
+/**
+ * A file handler for images.
+ *
+ * #### Notes
+ * Edited PNG and JPEG images are saved back as base64 content.
+ */
 export
-class ImageHandler extends AbstractFileHandler<Widget> {
+class ImageHandler extends AbstractFileHandler<ImageWidget> {
   /**
    * Get the list of file extensions explicitly supported by the handler.
    */
@@ -58,38 +256,121 @@ class ImageHandler extends AbstractFileHandler<Widget> {
   /**
    * Get the options used to save the widget content.
    */
-  protected getSaveOptions(widget: Widget, path: string): Promise<IContentsOpts> {
-    return Promise.resolve(void 0);
+  protected getSaveOptions(widget: ImageWidget, path: string): Promise<IContentsOpts> {
+    if (!widget.isEditable) {
+      let error = new Error(`Images of type ${widget.mimetype} cannot be saved`);
+      return Promise.reject<IContentsOpts>(error);
+    }
+    let content = widget.encode();
+    return Promise.resolve({ type: 'file', format: 'base64', content });
   }
 
   /**
    * Create the widget from a path.
    */
-  protected createWidget(path: string): Widget {
-    var widget = new Widget();
-    widget.node.tabIndex = 0;
-    let image = document.createElement('img');
-    widget.node.appendChild(image);
-    widget.node.style.overflowX = 'auto';
-    widget.node.style.overflowY = 'auto';
+  protected createWidget(path: string): ImageWidget {
+    let widget = new ImageWidget();
     widget.title.text = path.split('/').pop();
+    widget.contentChanged.connect(() => {
+      this.setDirty(this.findPath(widget));
+    });
     return widget;
   }
 
  /**
   * Populate a widget from `IContentsModel`.
   */
-  protected populateWidget(widget: Widget, model: IContentsModel): Promise<IContentsModel> {
-    return new Promise<IContentsModel>((resolve, reject) => {
-      let img = widget.node.firstChild as HTMLImageElement;
-      img.addEventListener('load', () => {
-        resolve(void 0);
-      });
-      img.addEventListener('error', error => {
-        reject(error);
-      });
-      img.src = `data:${model.mimetype};${model.format},${model.content}`;
+  protected populateWidget(widget: ImageWidget, model: IContentsModel): Promise<IContentsModel> {
+    return widget.load(model.content, model.mimetype, model.format).then(() => {
       return model;
     });
   }
 }
+
+
+/**
+ * A namespace for image handler private data.
+ */
+namespace Private {
+  /**
+   * Create a form of labeled number inputs.
+   *
+   * @param fields - The label and initial value of each input.
+   */
+  export
+  function createForm(fields: [string, number][]): HTMLElement {
+    let node = document.createElement('div');
+    node.className = 'jp-ImageForm';
+    for (let [text, value] of fields) {
+      let label = document.createElement('label');
+      label.className = 'jp-ImageForm-label';
+      let span = document.createElement('span');
+      span.textContent = text;
+      let input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.value = String(value);
+      label.appendChild(span);
+      label.appendChild(input);
+      node.appendChild(label);
+    }
+    return node;
+  }
+
+  /**
+   * Keep the first two inputs of a form at an aspect ratio.
+   */
+  export
+  function linkAspectRatio(form: HTMLElement, ratio: number): void {
+    let inputs = form.getElementsByTagName('input');
+    let width = inputs[0];
+    let height = inputs[1];
+    width.addEventListener('input', () => {
+      height.value = String(Math.round(Number(width.value) / ratio));
+    });
+    height.addEventListener('input', () => {
+      width.value = String(Math.round(Number(height.value) * ratio));
+    });
+  }
+
+  /**
+   * Show a form dialog and get its values.
+   *
+   * @returns A promise which resolves with the input values, or `null`
+   *   if the dialog was cancelled.
+   */
+  export
+  function showForm(title: string, form: HTMLElement, okText: string): Promise<number[]> {
+    return showDialog({ title, body: form, okText }).then(result => {
+      if (!result || result.text !== okText) {
+        return null;
+      }
+      let inputs = form.getElementsByTagName('input');
+      let values: number[] = [];
+      for (let i = 0; i < inputs.length; i++) {
+        let value = Number(inputs[i].value);
+        if (isNaN(value)) {
+          throw new Error(`Invalid value for ${inputs[i].previousSibling.textContent}`);
+        }
+        values.push(value);
+      }
+      return values;
+    });
+  }
+
+  /**
+   * Ask the user whether to overwrite a file, if it exists.
+   *
+   * @returns A promise which resolves with whether to write the file.
+   */
+  export
+  function confirmOverwrite(contents: IContentsManager, path: string): Promise<boolean> {
+    return contents.get(path, { content: false }).then(() => {
+      return showDialog({
+        title: 'Overwrite file?',
+        body: `"${path}" already exists, overwrite?`,
+        okText: 'OVERWRITE'
+      }).then(result => !!result && result.text === 'OVERWRITE');
+    }, () => true);
+  }
+}
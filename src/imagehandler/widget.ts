@@ -0,0 +1,453 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  ResizeMessage, Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to image widgets.
+ */
+const IMAGE_CLASS = 'jp-ImageWidget';
+
+/**
+ * The class name added to the scrolling content of an image widget.
+ */
+const CONTENT_CLASS = 'jp-ImageWidget-content';
+
+/**
+ * The class name added to the node sized to the transformed image.
+ */
+const CANVAS_CLASS = 'jp-ImageWidget-canvas';
+
+/**
+ * The class name added to the size and zoom readout.
+ */
+const READOUT_CLASS = 'jp-ImageWidget-readout';
+
+/**
+ * The zoom factor applied by a zoom in or out step.
+ */
+const ZOOM_STEP = 1.25;
+
+/**
+ * The minimum zoom level.
+ */
+const MIN_SCALE = 0.05;
+
+/**
+ * The maximum zoom level.
+ */
+const MAX_SCALE = 32;
+
+/**
+ * The image mimetypes which can be edited and saved.
+ */
+const EDITABLE_MIMETYPES = ['image/png', 'image/jpeg'];
+
+/**
+ * The quality used to encode JPEG images.
+ */
+const JPEG_QUALITY = 0.92;
+
+
+/**
+ * A widget which displays an image with zoom, rotation and flipping.
+ *
+ * #### Notes
+ * The widget is in "fit" mode until it is zoomed, the image is scaled
+ * to the size of the widget in that mode.
+ *
+ * PNG and JPEG images can be cropped and resized.  The zoom, rotation
+ * and flips only change the view, they are not part of the content.
+ */
+export
+class ImageWidget extends Widget {
+  /**
+   * Create a new node for the widget.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let content = document.createElement('div');
+    let canvas = document.createElement('div');
+    let image = document.createElement('img');
+    let readout = document.createElement('div');
+    content.className = CONTENT_CLASS;
+    canvas.className = CANVAS_CLASS;
+    readout.className = READOUT_CLASS;
+    canvas.appendChild(image);
+    content.appendChild(canvas);
+    node.appendChild(content);
+    node.appendChild(readout);
+    return node;
+  }
+
+  /**
+   * Construct a new image widget.
+   */
+  constructor() {
+    super();
+    this.addClass(IMAGE_CLASS);
+    this.node.tabIndex = 0;
+  }
+
+  /**
+   * A signal emitted when the image content is edited.
+   */
+  get contentChanged(): ISignal<ImageWidget, void> {
+    return Private.contentChangedSignal.bind(this);
+  }
+
+  /**
+   * Get the image node of the widget.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get image(): HTMLImageElement {
+    return this.node.getElementsByTagName('img')[0];
+  }
+
+  /**
+   * Get the current zoom level.
+   *
+   * #### Notes
+   * This is a read-only property.  A level of `1` is the natural size.
+   */
+  get scale(): number {
+    return this._scale;
+  }
+
+  /**
+   * Get whether the image is scaled to fit the widget.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isFitted(): boolean {
+    return this._fit;
+  }
+
+  /**
+   * Get the mimetype of the image content.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get mimetype(): string {
+    return this._mimetype;
+  }
+
+  /**
+   * Get whether the image content can be edited and saved.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isEditable(): boolean {
+    return EDITABLE_MIMETYPES.indexOf(this._mimetype) !== -1;
+  }
+
+  /**
+   * Get the clockwise rotation of the image in degrees.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get rotation(): number {
+    return this._rotation;
+  }
+
+  /**
+   * Load image content into the widget.
+   *
+   * @param content - The image content.
+   *
+   * @param mimetype - The mimetype of the image.
+   *
+   * @param format - The format of the content, e.g. `'base64'`.
+   *
+   * @returns A promise which resolves when the image has loaded.
+   *
+   * #### Notes
+   * The zoom, rotation and flips are kept, so a reloaded image is shown
+   * the same way.
+   */
+  load(content: string, mimetype: string, format: string): Promise<void> {
+    this._mimetype = mimetype;
+    return this._setSource(`data:${mimetype};${format},${content}`);
+  }
+
+  /**
+   * Encode the image content as base64.
+   *
+   * @param mimetype - The mimetype of the encoding.  The default is the
+   *   mimetype of the image.
+   *
+   * @returns The base64 encoded content, without a data url prefix.
+   *
+   * #### Notes
+   * Only PNG and JPEG encodings are supported.
+   */
+  encode(mimetype = this._mimetype): string {
+    if (EDITABLE_MIMETYPES.indexOf(mimetype) === -1) {
+      throw new Error(`Cannot encode an image as ${mimetype}`);
+    }
+    let source = this.image.src;
+    if (source.indexOf(`data:${mimetype};base64,`) === 0) {
+      return source.slice(source.indexOf(',') + 1);
+    }
+    let image = this.image;
+    let width = image.naturalWidth;
+    let height = image.naturalHeight;
+    let url = Private.draw(width, height, mimetype, context => {
+      context.drawImage(image, 0, 0);
+    });
+    return url.slice(url.indexOf(',') + 1);
+  }
+
+  /**
+   * Crop the image content.
+   *
+   * @param x - The left edge of the crop, in image pixels.
+   *
+   * @param y - The top edge of the crop, in image pixels.
+   *
+   * @param width - The width of the crop, in image pixels.
+   *
+   * @param height - The height of the crop, in image pixels.
+   *
+   * @returns A promise which resolves when the cropped image has loaded.
+   *
+   * #### Notes
+   * The crop is clipped to the bounds of the image.
+   */
+  crop(x: number, y: number, width: number, height: number): Promise<void> {
+    let image = this.image;
+    x = Math.max(0, Math.round(x));
+    y = Math.max(0, Math.round(y));
+    width = Math.min(Math.round(width), image.naturalWidth - x);
+    height = Math.min(Math.round(height), image.naturalHeight - y);
+    return this._edit(width, height, context => {
+      context.drawImage(image, x, y, width, height, 0, 0, width, height);
+    });
+  }
+
+  /**
+   * Resize the image content.
+   *
+   * @param width - The new width, in pixels.
+   *
+   * @param height - The new height, in pixels.
+   *
+   * @returns A promise which resolves when the resized image has loaded.
+   */
+  resize(width: number, height: number): Promise<void> {
+    let image = this.image;
+    width = Math.round(width);
+    height = Math.round(height);
+    return this._edit(width, height, context => {
+      context.drawImage(image, 0, 0, width, height);
+    });
+  }
+
+  /**
+   * Zoom in by one step.
+   */
+  zoomIn(): void {
+    this._setScale(this._scale * ZOOM_STEP);
+  }
+
+  /**
+   * Zoom out by one step.
+   */
+  zoomOut(): void {
+    this._setScale(this._scale / ZOOM_STEP);
+  }
+
+  /**
+   * Show the image at its natural size.
+   */
+  resetZoom(): void {
+    this._setScale(1);
+  }
+
+  /**
+   * Scale the image to fit the widget.
+   */
+  fitToWindow(): void {
+    this._fit = true;
+    this.update();
+  }
+
+  /**
+   * Rotate the image by a quarter turn.
+   *
+   * @param clockwise - Whether to rotate clockwise.  The default is `true`.
+   */
+  rotate(clockwise = true): void {
+    this._rotation = (this._rotation + (clockwise ? 90 : 270)) % 360;
+    this.update();
+  }
+
+  /**
+   * Flip the image horizontally.
+   */
+  flipHorizontal(): void {
+    this._flipX = -this._flipX;
+    this.update();
+  }
+
+  /**
+   * Flip the image vertically.
+   */
+  flipVertical(): void {
+    this._flipY = -this._flipY;
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on a `'resize'` message.
+   */
+  protected onResize(msg: ResizeMessage): void {
+    if (this._fit) this.update();
+  }
+
+  /**
+   * A message handler invoked on an `'after-show'` message.
+   */
+  protected onAfterShow(msg: Message): void {
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let image = this.image;
+    let width = image.naturalWidth;
+    let height = image.naturalHeight;
+    let readout = this.node.getElementsByClassName(READOUT_CLASS)[0];
+    if (!width || !height) {
+      readout.textContent = '';
+      return;
+    }
+    let turned = this._rotation % 180 !== 0;
+    let boxWidth = turned ? height : width;
+    let boxHeight = turned ? width : height;
+    if (this._fit) {
+      let content = this.node.getElementsByClassName(CONTENT_CLASS)[0];
+      let scale = Math.min(
+        content.clientWidth / boxWidth, content.clientHeight / boxHeight, 1
+      );
+      this._scale = Math.max(scale, MIN_SCALE);
+    }
+    let scale = this._scale;
+    let canvas = this.node.getElementsByClassName(CANVAS_CLASS)[0] as HTMLElement;
+    canvas.style.width = `${Math.round(boxWidth * scale)}px`;
+    canvas.style.height = `${Math.round(boxHeight * scale)}px`;
+    image.style.width = `${Math.round(width * scale)}px`;
+    image.style.height = `${Math.round(height * scale)}px`;
+    image.style.transform = (
+      `translate(-50%, -50%) rotate(${this._rotation}deg) ` +
+      `scale(${this._flipX}, ${this._flipY})`
+    );
+    let zoom = Math.round(scale * 100);
+    readout.textContent = `${width} × ${height} px — ${zoom}%` +
+                          (this._fit ? ' (fit)' : '');
+  }
+
+  /**
+   * Replace the image content with a drawing.
+   */
+  private _edit(width: number, height: number, draw: (context: CanvasRenderingContext2D) => void): Promise<void> {
+    if (!this.isEditable) {
+      let error = new Error(`Images of type ${this._mimetype} cannot be edited`);
+      return Promise.reject<void>(error);
+    }
+    if (!(width > 0 && height > 0)) {
+      return Promise.reject<void>(new Error('The image size must be positive'));
+    }
+    let url = Private.draw(width, height, this._mimetype, draw);
+    return this._setSource(url).then(() => {
+      this.contentChanged.emit(void 0);
+    });
+  }
+
+  /**
+   * Set the source url of the image node.
+   */
+  private _setSource(src: string): Promise<void> {
+    let image = this.image;
+    return new Promise<void>((resolve, reject) => {
+      image.onload = () => {
+        image.onload = image.onerror = null;
+        this.update();
+        resolve(void 0);
+      };
+      image.onerror = (error: Event) => {
+        image.onload = image.onerror = null;
+        reject(error);
+      };
+      image.src = src;
+    });
+  }
+
+  /**
+   * Set the zoom level and leave fit mode.
+   */
+  private _setScale(scale: number): void {
+    this._fit = false;
+    this._scale = Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+    this.update();
+  }
+
+  private _scale = 1;
+  private _fit = true;
+  private _rotation = 0;
+  private _flipX = 1;
+  private _flipY = 1;
+  private _mimetype = '';
+}
+
+
+/**
+ * A namespace for image widget private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when the image content is edited.
+   */
+  export
+  const contentChangedSignal = new Signal<ImageWidget, void>();
+
+  /**
+   * Draw on a new canvas and encode the result as a data url.
+   *
+   * #### Notes
+   * JPEG has no transparency, so the canvas is filled with white first.
+   */
+  export
+  function draw(width: number, height: number, mimetype: string, callback: (context: CanvasRenderingContext2D) => void): string {
+    let canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    let context = canvas.getContext('2d');
+    if (mimetype === 'image/jpeg') {
+      context.fillStyle = 'white';
+      context.fillRect(0, 0, width, height);
+    }
+    callback(context);
+    return canvas.toDataURL(mimetype, JPEG_QUALITY);
+  }
+}
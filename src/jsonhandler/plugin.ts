@@ -0,0 +1,132 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IContentsModel, IContentsOpts
+} from 'jupyter-js-services';
+
+import {
+  AbstractFileHandler
+} from 'jupyter-js-ui/lib/filehandler';
+
+import {
+  Application
+} from 'phosphide/lib/core/application';
+
+import {
+  DocumentTracker
+} from '../documenttracker/plugin';
+
+import {
+  DocumentRegistry
+} from '../filehandler/registry';
+
+import {
+  JupyterServices
+} from '../services/plugin';
+
+import {
+  JSONTreeWidget
+} from './widget';
+
+
+/**
+ * The JSON file handler extension.
+ */
+export
+const jsonHandlerExtension = {
+  id: 'jupyter.extensions.jsonHandler',
+  requires: [DocumentRegistry, JupyterServices, DocumentTracker],
+  activate: activateJSONHandler
+};
+
+
+/**
+ * Activate the JSON file handler and the tree commands.
+ */
+function activateJSONHandler(app: Application, registry: DocumentRegistry, services: JupyterServices, tracker: DocumentTracker): Promise<void> {
+  let handler = new JSONHandler(services.contentsManager);
+  registry.addHandler(handler, { name: 'JSON Tree' });
+
+  app.commands.add([
+    {
+      id: 'json-tree:expand-all',
+      handler: () => {
+        let widget = tracker.activeWidget;
+        if (widget instanceof JSONTreeWidget) widget.expandAll();
+      }
+    },
+    {
+      id: 'json-tree:collapse-all',
+      handler: () => {
+        let widget = tracker.activeWidget;
+        if (widget instanceof JSONTreeWidget) widget.collapseAll();
+      }
+    }
+  ]);
+  app.palette.add([
+    {
+      command: 'json-tree:expand-all',
+      category: 'JSON',
+      text: 'Expand All',
+      caption: 'Expand every node of the JSON tree'
+    },
+    {
+      command: 'json-tree:collapse-all',
+      category: 'JSON',
+      text: 'Collapse All',
+      caption: 'Collapse every node of the JSON tree'
+    }
+  ]);
+
+  return Promise.resolve(void 0);
+}
+
+
+/**
+ * A file handler for JSON files.
+ *
+ * #### Notes
+ * The tree is read-only, the text is saved as it was loaded.
+ */
+export
+class JSONHandler extends AbstractFileHandler<JSONTreeWidget> {
+  /**
+   * Get the list of file extensions explicitly supported by the handler.
+   */
+  get fileExtensions(): string[] {
+    return ['.json'];
+  }
+
+  /**
+   * Get the options used to fetch the model contents from disk.
+   */
+  protected getFetchOptions(path: string): IContentsOpts {
+    return { type: 'file', format: 'text' };
+  }
+
+  /**
+   * Get the options used to save the widget content.
+   */
+  protected getSaveOptions(widget: JSONTreeWidget, path: string): Promise<IContentsOpts> {
+    return Promise.resolve({ type: 'file', format: 'text', content: widget.text });
+  }
+
+  /**
+   * Create the widget from a path.
+   */
+  protected createWidget(path: string): JSONTreeWidget {
+    let widget = new JSONTreeWidget();
+    widget.title.text = path.split('/').pop();
+    return widget;
+  }
+
+  /**
+   * Populate a widget from `IContentsModel`.
+   */
+  protected populateWidget(widget: JSONTreeWidget, model: IContentsModel): Promise<IContentsModel> {
+    widget.text = model.content;
+    return Promise.resolve(model);
+  }
+}
@@ -0,0 +1,304 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  Property
+} from 'phosphor-properties';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to JSON tree widgets.
+ */
+const TREE_CLASS = 'jp-JSONTreeWidget';
+
+/**
+ * The class name added to a tree node.
+ */
+const NODE_CLASS = 'jp-JSONTreeWidget-node';
+
+/**
+ * The class name added to the toggle of a collapsible tree node.
+ */
+const TOGGLE_CLASS = 'jp-JSONTreeWidget-toggle';
+
+/**
+ * The class name added to the key of a tree node.
+ */
+const KEY_CLASS = 'jp-JSONTreeWidget-key';
+
+/**
+ * The class name added to the value of a tree node.
+ */
+const VALUE_CLASS = 'jp-JSONTreeWidget-value';
+
+/**
+ * The class name added to the children of a tree node.
+ */
+const CHILDREN_CLASS = 'jp-JSONTreeWidget-children';
+
+/**
+ * The class name added to the parse error message.
+ */
+const ERROR_CLASS = 'jp-JSONTreeWidget-error';
+
+/**
+ * The class name added to expanded tree nodes.
+ */
+const EXPANDED_CLASS = 'jp-mod-expanded';
+
+/**
+ * The depth to which the tree is expanded when it is loaded.
+ */
+const EXPAND_DEPTH = 1;
+
+
+/**
+ * A widget which displays JSON as a collapsible tree.
+ *
+ * #### Notes
+ * The children of a node are only rendered when it is first expanded,
+ * so large documents load quickly.  Text which is not valid JSON is
+ * shown as it is, below the parse error.
+ */
+export
+class JSONTreeWidget extends Widget {
+  /**
+   * Construct a new JSON tree widget.
+   */
+  constructor() {
+    super();
+    this.addClass(TREE_CLASS);
+    this.node.tabIndex = 0;
+  }
+
+  /**
+   * Get the text displayed by the widget.
+   */
+  get text(): string {
+    return this._text;
+  }
+
+  /**
+   * Set the text displayed by the widget.
+   */
+  set text(value: string) {
+    this._text = value;
+    this.update();
+  }
+
+  /**
+   * Expand every node of the tree.
+   */
+  expandAll(): void {
+    let nodes = this.node.getElementsByClassName(NODE_CLASS);
+    // The collection is live, expanding a node appends its children.
+    for (let i = 0; i < nodes.length; i++) {
+      Private.setExpanded(nodes[i] as HTMLElement, true);
+    }
+  }
+
+  /**
+   * Collapse every node of the tree.
+   */
+  collapseAll(): void {
+    let nodes = this.node.getElementsByClassName(EXPANDED_CLASS);
+    while (nodes.length) {
+      Private.setExpanded(nodes[0] as HTMLElement, false);
+    }
+  }
+
+  /**
+   * Handle the DOM events for the widget.
+   *
+   * @param event - The DOM event sent to the widget.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the widget's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'click') {
+      this._evtClick(event as MouseEvent);
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.node.addEventListener('click', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    super.onBeforeDetach(msg);
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    this.node.textContent = '';
+    let value: any;
+    try {
+      value = JSON.parse(this._text);
+    } catch (error) {
+      let message = document.createElement('div');
+      message.className = ERROR_CLASS;
+      message.textContent = `Invalid JSON: ${error.message}`;
+      let pre = document.createElement('pre');
+      pre.textContent = this._text;
+      this.node.appendChild(message);
+      this.node.appendChild(pre);
+      return;
+    }
+    let root = Private.createNode(null, value);
+    this.node.appendChild(root);
+    Private.expandToDepth(root, EXPAND_DEPTH);
+  }
+
+  /**
+   * Handle the `'click'` event for the widget.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let target = event.target as HTMLElement;
+    if (!target.classList.contains(TOGGLE_CLASS)) {
+      return;
+    }
+    let node = target.parentElement;
+    Private.setExpanded(node, !node.classList.contains(EXPANDED_CLASS));
+  }
+
+  private _text = '';
+}
+
+
+/**
+ * A namespace for JSON tree widget private data.
+ */
+namespace Private {
+  /**
+   * The JSON value of a collapsible tree node.
+   */
+  const valueProperty = new Property<HTMLElement, any>({
+    name: 'value',
+    value: void 0
+  });
+
+  /**
+   * Create a tree node for a value.
+   *
+   * @param key - The key of the value in its parent, or `null` for the
+   *   root.
+   *
+   * @param value - The JSON value.
+   */
+  export
+  function createNode(key: string, value: any): HTMLElement {
+    let node = document.createElement('div');
+    node.className = NODE_CLASS;
+    let container = isContainer(value);
+    if (container) {
+      let toggle = document.createElement('span');
+      toggle.className = TOGGLE_CLASS;
+      node.appendChild(toggle);
+      valueProperty.set(node, value);
+    }
+    if (key !== null) {
+      let label = document.createElement('span');
+      label.className = KEY_CLASS;
+      label.textContent = `${key}: `;
+      node.appendChild(label);
+    }
+    let text = document.createElement('span');
+    text.className = `${VALUE_CLASS} ${VALUE_CLASS}-${typeName(value)}`;
+    text.textContent = container ? summary(value) : JSON.stringify(value);
+    node.appendChild(text);
+    return node;
+  }
+
+  /**
+   * Expand or collapse a tree node.
+   *
+   * #### Notes
+   * The children are rendered the first time the node is expanded.
+   * This is a no-op for nodes of primitive values.
+   */
+  export
+  function setExpanded(node: HTMLElement, expanded: boolean): void {
+    let value = valueProperty.get(node);
+    if (value === void 0) {
+      return;
+    }
+    let children = node.lastChild as HTMLElement;
+    if (expanded && !children.classList.contains(CHILDREN_CLASS)) {
+      children = document.createElement('div');
+      children.className = CHILDREN_CLASS;
+      for (let key of Object.keys(value)) {
+        children.appendChild(createNode(key, value[key]));
+      }
+      node.appendChild(children);
+    }
+    node.classList.toggle(EXPANDED_CLASS, expanded);
+  }
+
+  /**
+   * Expand a tree node and its descendants to a depth.
+   */
+  export
+  function expandToDepth(node: HTMLElement, depth: number): void {
+    if (depth <= 0) {
+      return;
+    }
+    setExpanded(node, true);
+    let children = node.lastChild as HTMLElement;
+    if (!children || !children.classList.contains(CHILDREN_CLASS)) {
+      return;
+    }
+    for (let i = 0; i < children.childNodes.length; i++) {
+      expandToDepth(children.childNodes[i] as HTMLElement, depth - 1);
+    }
+  }
+
+  /**
+   * Test whether a value is an object or an array.
+   */
+  function isContainer(value: any): boolean {
+    return value !== null && typeof value === 'object';
+  }
+
+  /**
+   * Get the type name of a value, for styling.
+   */
+  function typeName(value: any): string {
+    if (value === null) {
+      return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+  }
+
+  /**
+   * Get the collapsed summary of an object or an array.
+   */
+  function summary(value: any): string {
+    let count = Object.keys(value).length;
+    if (Array.isArray(value)) {
+      return `Array[${count}]`;
+    }
+    return `Object{${count}}`;
+  }
+}
@@ -0,0 +1,128 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  CodeMirrorWidget
+} from 'jupyter-js-ui/lib/codemirror/widget';
+
+import {
+  RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  Application
+} from 'phosphide/lib/core/application';
+
+import {
+  DockPanel
+} from 'phosphor-dockpanel';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  DocumentTracker
+} from '../documenttracker/plugin';
+
+import {
+  MarkdownPreview
+} from './widget';
+
+
+/**
+ * The file extensions of Markdown files.
+ */
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+
+/**
+ * The Markdown preview extension.
+ */
+export
+const markdownPreviewExtension = {
+  id: 'jupyter.extensions.markdownPreview',
+  requires: [DocumentTracker, RenderMime],
+  activate: activateMarkdownPreview
+};
+
+
+/**
+ * Activate the Markdown preview extension.
+ */
+function activateMarkdownPreview(app: Application, tracker: DocumentTracker, rendermime: RenderMime<Widget>): Promise<void> {
+  let previews: MarkdownPreview[] = [];
+  let count = 0;
+
+  app.commands.add([
+    {
+      id: 'markdown-preview:open',
+      handler: () => {
+        let path = tracker.activePath;
+        let editor = tracker.activeWidget;
+        if (!path) {
+          return;
+        }
+        let ext = path.slice(path.lastIndexOf('.')).toLowerCase();
+        if (MARKDOWN_EXTENSIONS.indexOf(ext) === -1) {
+          return;
+        }
+        if (editor instanceof CodeMirrorWidget) {
+          openPreview(editor, path);
+        }
+      }
+    }
+  ]);
+  app.palette.add([
+    {
+      command: 'markdown-preview:open',
+      category: 'Markdown',
+      text: 'Preview Markdown',
+      caption: 'Show the rendered Markdown next to the editor'
+    }
+  ]);
+
+  return Promise.resolve(void 0);
+
+  function openPreview(editor: CodeMirrorWidget, path: string): void {
+    let preview = previews.filter(p => p.source === editor)[0];
+    if (!preview) {
+      preview = new MarkdownPreview(editor, rendermime);
+      preview.id = `markdown-preview-${++count}`;
+      preview.title.text = `Preview ${path.split('/').pop()}`;
+      preview.title.closable = true;
+      preview.disposed.connect(() => {
+        previews.splice(previews.indexOf(preview), 1);
+      });
+      previews.push(preview);
+    }
+    if (!preview.isAttached) {
+      let dock = Private.findDockPanel(editor);
+      if (dock) {
+        dock.insertRight(preview, editor);
+      } else {
+        app.shell.addToMainArea(preview);
+      }
+    }
+    app.shell.activateMain(preview.id);
+  }
+}
+
+
+/**
+ * A namespace for Markdown preview private data.
+ */
+namespace Private {
+  /**
+   * Find the dock panel which holds a widget.
+   */
+  export
+  function findDockPanel(widget: Widget): DockPanel {
+    let parent = widget.parent;
+    while (parent && !(parent instanceof DockPanel)) {
+      parent = parent.parent;
+    }
+    return parent as DockPanel;
+  }
+}
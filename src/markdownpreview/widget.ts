@@ -0,0 +1,125 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  CodeMirrorWidget
+} from 'jupyter-js-ui/lib/codemirror/widget';
+
+import {
+  RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  Panel
+} from 'phosphor-panel';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to Markdown preview widgets.
+ */
+const PREVIEW_CLASS = 'jp-MarkdownPreview';
+
+/**
+ * The delay in milliseconds between an edit and the preview update.
+ */
+const RENDER_DELAY = 300;
+
+
+/**
+ * A widget which shows the rendered Markdown of an editor.
+ *
+ * #### Notes
+ * The preview follows the edits to the source editor, and is disposed
+ * along with it.
+ */
+export
+class MarkdownPreview extends Panel {
+  /**
+   * Construct a new Markdown preview.
+   *
+   * @param source - The editor widget holding the Markdown text.
+   *
+   * @param rendermime - The rendermime used to render the Markdown.
+   */
+  constructor(source: CodeMirrorWidget, rendermime: RenderMime<Widget>) {
+    super();
+    this.addClass(PREVIEW_CLASS);
+    this._source = source;
+    this._rendermime = rendermime;
+    this._onChange = () => { this._scheduleRender(); };
+    source.editor.on('change', this._onChange);
+    source.disposed.connect(this._onSourceDisposed, this);
+    this.update();
+  }
+
+  /**
+   * Get the editor widget previewed by the widget.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get source(): CodeMirrorWidget {
+    return this._source;
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    clearTimeout(this._timer);
+    this._source.editor.off('change', this._onChange);
+    this._source.disposed.disconnect(this._onSourceDisposed, this);
+    this._source = null;
+    this._rendermime = null;
+    super.dispose();
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let text = this._source.editor.getDoc().getValue();
+    let rendered = this._rendermime.render({ 'text/markdown': text });
+    let node = this.node;
+    let scrollTop = node.scrollTop;
+    while (this.childCount()) {
+      this.childAt(0).dispose();
+    }
+    if (rendered) {
+      this.addChild(rendered);
+    }
+    node.scrollTop = scrollTop;
+  }
+
+  /**
+   * Render the preview after a pause in the edits.
+   */
+  private _scheduleRender(): void {
+    clearTimeout(this._timer);
+    this._timer = setTimeout(() => { this.update(); }, RENDER_DELAY);
+  }
+
+  /**
+   * Handle the disposal of the source editor.
+   */
+  private _onSourceDisposed(): void {
+    this.dispose();
+  }
+
+  private _source: CodeMirrorWidget = null;
+  private _rendermime: RenderMime<Widget> = null;
+  private _onChange: () => void = null;
+  private _timer = -1;
+}
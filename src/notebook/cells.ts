@@ -0,0 +1,509 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  INotebookModel, NotebookPanel
+} from 'jupyter-js-notebook';
+
+import {
+  BaseCellWidget, ICellModel, isMarkdownCellModel
+} from 'jupyter-js-notebook/lib/cells';
+
+import {
+  Property
+} from 'phosphor-properties';
+
+import {
+  PanelLayout
+} from 'phosphor-panel';
+
+
+/**
+ * The class name of the cells of a notebook.
+ */
+const CELL_CLASS = 'jp-Notebook-cell';
+
+/**
+ * The maximum number of deletions which can be undone.
+ */
+const UNDO_LIMIT = 20;
+
+
+/**
+ * Get the indices of the selected cells of a notebook.
+ *
+ * #### Notes
+ * The active cell is always selected.  The indices are in ascending
+ * order.
+ */
+export
+function selectedIndices(model: INotebookModel): number[] {
+  let indices: number[] = [];
+  for (let i = 0; i < model.cells.length; i++) {
+    if (model.isSelected(model.cells.get(i))) {
+      indices.push(i);
+    }
+  }
+  return indices;
+}
+
+
+/**
+ * Deselect every cell of a notebook but the active cell.
+ */
+export
+function deselectAll(model: INotebookModel): void {
+  for (let i = 0; i < model.cells.length; i++) {
+    let cell = model.cells.get(i);
+    if (model.isSelected(cell)) {
+      model.deselect(cell);
+    }
+  }
+}
+
+
+/**
+ * Select a range of cells in a notebook.
+ *
+ * @param model - The notebook model.
+ *
+ * @param from - The index where the range starts.
+ *
+ * @param to - The index where the range ends, which becomes active.
+ *
+ * #### Notes
+ * The cells outside of the range are deselected.
+ */
+export
+function selectRange(model: INotebookModel, from: number, to: number): void {
+  let start = Math.min(from, to);
+  let end = Math.max(from, to);
+  for (let i = 0; i < model.cells.length; i++) {
+    let cell = model.cells.get(i);
+    if (i >= start && i <= end) {
+      model.select(cell);
+    } else if (model.isSelected(cell)) {
+      model.deselect(cell);
+    }
+  }
+  model.activeCellIndex = to;
+}
+
+
+/**
+ * Select every cell of a notebook.
+ */
+export
+function selectAll(model: INotebookModel): void {
+  for (let i = 0; i < model.cells.length; i++) {
+    model.select(model.cells.get(i));
+  }
+}
+
+
+/**
+ * Follow the clicks on the cells of a notebook panel.
+ *
+ * #### Notes
+ * A shift-click in command mode selects the cells from the active cell
+ * to the clicked cell.  Any other click on a cell clears the selection,
+ * the notebook then makes the clicked cell active.
+ *
+ * The clicks are followed until the panel is disposed.
+ */
+export
+function followClicks(panel: NotebookPanel): void {
+  let handler = new Private.ClickHandler(panel);
+  panel.disposed.connect(() => { handler.dispose(); });
+}
+
+
+/**
+ * Cut the selected cells of a notebook.
+ *
+ * #### Notes
+ * The cells are copied with the notebook manager, so they are pasted
+ * with it.  Unlike a cut of the manager, every selected cell is cut and
+ * the cut can be undone with [[undoDelete]].
+ */
+export
+function cutCells(panel: NotebookPanel): void {
+  let model = panel.model;
+  let indices = selectedIndices(model);
+  panel.manager.copy();
+  Private.deleteAt(model, indices);
+}
+
+
+/**
+ * Delete the selected cells of a notebook.
+ *
+ * #### Notes
+ * The deletion can be undone with [[undoDelete]].  A notebook is never
+ * left empty, an empty code cell replaces the last deleted cell.
+ */
+export
+function deleteCells(model: INotebookModel): void {
+  Private.deleteAt(model, selectedIndices(model));
+}
+
+
+/**
+ * Restore the cells of the last deletion in a notebook.
+ *
+ * #### Notes
+ * The cells are restored at their original positions, as far as the
+ * notebook has not shrunk since.  When the deletion was a merge, the
+ * merged cell gets its own source back if it is still in the notebook.
+ */
+export
+function undoDelete(model: INotebookModel): void {
+  let deletion = Private.deletedProperty.get(model).pop();
+  if (!deletion) {
+    return;
+  }
+  deselectAll(model);
+  let merged = deletion.merged;
+  if (merged && model.cells.indexOf(merged.cell) !== -1) {
+    merged.cell.input.textEditor.text = merged.text;
+  }
+  for (let item of deletion.cells) {
+    model.cells.insert(Math.min(item.index, model.cells.length), item.cell);
+  }
+  model.activeCellIndex = model.cells.indexOf(deletion.cells[0].cell);
+}
+
+
+/**
+ * Move the selected cells of a notebook up or down by one cell.
+ *
+ * @param model - The notebook model.
+ *
+ * @param up - Whether to move the cells up.
+ *
+ * #### Notes
+ * The cells keep their spacing, nothing moves if a selected cell is
+ * already at the edge of the notebook.
+ */
+export
+function moveCells(model: INotebookModel, up: boolean): void {
+  let indices = selectedIndices(model);
+  let cells = model.cells;
+  if (!indices.length) {
+    return;
+  }
+  if (up ? indices[0] === 0 : indices[indices.length - 1] === cells.length - 1) {
+    return;
+  }
+  let active = cells.get(model.activeCellIndex);
+  if (up) {
+    for (let index of indices) {
+      cells.move(index, index - 1);
+    }
+  } else {
+    for (let i = indices.length - 1; i >= 0; i--) {
+      cells.move(indices[i], indices[i] + 1);
+    }
+  }
+  model.activeCellIndex = cells.indexOf(active);
+}
+
+
+/**
+ * Merge cells of a notebook.
+ *
+ * @param model - The notebook model.
+ *
+ * @param above - Whether to merge the active cell with the cell above,
+ *   rather than the cell below.
+ *
+ * #### Notes
+ * When several cells are selected they are merged together instead.
+ * The sources are joined into the first cell, which keeps its type and
+ * outputs.  The other cells are deleted, the merge can be undone with
+ * [[undoDelete]].
+ */
+export
+function mergeCells(model: INotebookModel, above: boolean): void {
+  let indices = selectedIndices(model);
+  if (indices.length === 1) {
+    let index = indices[0];
+    let other = above ? index - 1 : index + 1;
+    if (other < 0 || other >= model.cells.length) {
+      return;
+    }
+    indices = above ? [other, index] : [index, other];
+  }
+  if (indices.length < 2) {
+    return;
+  }
+  let target = model.cells.get(indices[0]);
+  let text = indices.map(i => model.cells.get(i).input.textEditor.text);
+  deselectAll(model);
+  Private.removeCells(model, indices.slice(1), target);
+  // Markdown is edited as source, the merged cell is rendered again later.
+  if (isMarkdownCellModel(target)) {
+    target.rendered = false;
+  }
+  target.input.textEditor.text = text.join('\n\n');
+  model.activeCellIndex = model.cells.indexOf(target);
+}
+
+
+/**
+ * Split the active cell of a notebook at the cursor.
+ *
+ * @param panel - The notebook panel.
+ *
+ * #### Notes
+ * The source before the cursor moves to a new cell above, which has the
+ * same type and no outputs.  The active cell keeps the rest of the
+ * source and its outputs.
+ */
+export
+function splitCell(panel: NotebookPanel): void {
+  let model = panel.model;
+  let index = model.activeCellIndex;
+  let cell = model.cells.get(index);
+  let editor = findEditor(panel, index);
+  if (!cell || !editor) {
+    return;
+  }
+  let doc = editor.getDoc();
+  let offset = doc.indexFromPos(doc.getCursor());
+  let text = cell.input.textEditor.text;
+  let before = Private.createCell(model, cell.type);
+  before.input.textEditor.text = text.slice(0, offset);
+  if (isMarkdownCellModel(before)) {
+    before.rendered = false;
+  }
+  cell.input.textEditor.text = text.slice(offset);
+  deselectAll(model);
+  model.cells.insert(index, before);
+  model.activeCellIndex = index + 1;
+  editor.focus();
+  doc.setCursor({ line: 0, ch: 0 });
+}
+
+
+/**
+ * Find the CodeMirror editor of a notebook cell.
+ *
+ * @param panel - The notebook panel.
+ *
+ * @param index - The index of the cell.
+ *
+ * @returns The editor, or `null` if the cell is not rendered.
+ */
+export
+function findEditor(panel: NotebookPanel, index: number): CodeMirror.Editor {
+  let layout = panel.notebook.layout as PanelLayout;
+  if (index < 0 || index >= layout.childCount()) {
+    return null;
+  }
+  let widget = layout.childAt(index) as BaseCellWidget;
+  let node = widget.input.editor.node;
+  let wrapper = node.querySelector('.CodeMirror') as Private.ICodeMirrorNode;
+  return wrapper ? wrapper.CodeMirror : null;
+}
+
+
+/**
+ * A namespace for cell operations private data.
+ */
+namespace Private {
+  /**
+   * The wrapper node of a CodeMirror editor.
+   *
+   * #### Notes
+   * CodeMirror keeps a reference to the editor on its wrapper node.
+   */
+  export
+  interface ICodeMirrorNode extends HTMLElement {
+    CodeMirror: CodeMirror.Editor;
+  }
+
+  /**
+   * A handler for the clicks on the cells of a notebook panel.
+   */
+  export
+  class ClickHandler {
+    /**
+     * Construct a new click handler.
+     *
+     * #### Notes
+     * The handler listens in the capture phase, before the notebook
+     * moves the active cell.
+     */
+    constructor(panel: NotebookPanel) {
+      this._panel = panel;
+      this._node = panel.notebook.node;
+      this._node.addEventListener('click', this, true);
+    }
+
+    /**
+     * Stop listening to the clicks.
+     */
+    dispose(): void {
+      if (this._node) {
+        this._node.removeEventListener('click', this, true);
+      }
+      this._node = null;
+      this._panel = null;
+    }
+
+    /**
+     * Handle the `'click'` event on the notebook.
+     */
+    handleEvent(event: MouseEvent): void {
+      let model = this._panel.model;
+      if (!model || model.readOnly) {
+        return;
+      }
+      let index = findCell(this._panel, event.target as HTMLElement);
+      if (index === -1) {
+        return;
+      }
+      if (event.shiftKey && model.mode === 'command') {
+        selectRange(model, model.activeCellIndex, index);
+      } else {
+        deselectAll(model);
+      }
+    }
+
+    private _panel: NotebookPanel;
+    private _node: HTMLElement;
+  }
+
+  /**
+   * A deleted cell and its position.
+   */
+  export
+  interface IDeletedCell {
+    index: number;
+    cell: ICellModel;
+  }
+
+  /**
+   * A deletion which can be undone.
+   */
+  export
+  interface IDeletion {
+    /**
+     * The deleted cells, in ascending order.
+     */
+    cells: IDeletedCell[];
+
+    /**
+     * The cell the deleted cells were merged into and its own source,
+     * or `null` for a plain deletion.
+     */
+    merged: { cell: ICellModel, text: string };
+  }
+
+  /**
+   * The stack of deletions of a notebook, most recent last.
+   */
+  export
+  const deletedProperty = new Property<INotebookModel, IDeletion[]>({
+    name: 'deleted',
+    create: () => []
+  });
+
+  /**
+   * Remove cells from a notebook and remember them for [[undoDelete]].
+   *
+   * @param indices - The indices of the cells, in ascending order.
+   *
+   * @param target - The cell the removed cells are merged into, whose
+   *   source is remembered before it is changed.
+   */
+  export
+  function removeCells(model: INotebookModel, indices: number[], target?: ICellModel): void {
+    // Removed cells are disposed, so the undo stack keeps copies.
+    let cells = indices.map(index => {
+      let cell = model.cells.get(index);
+      return { index, cell: cloneCell(model, cell) };
+    });
+    for (let i = indices.length - 1; i >= 0; i--) {
+      model.cells.removeAt(indices[i]);
+    }
+    let merged = target ? { cell: target, text: target.input.textEditor.text } : null;
+    let stack = deletedProperty.get(model);
+    stack.push({ cells, merged });
+    if (stack.length > UNDO_LIMIT) {
+      stack.shift();
+    }
+  }
+
+  /**
+   * Delete cells of a notebook.
+   *
+   * @param indices - The indices of the cells, in ascending order.
+   */
+  export
+  function deleteAt(model: INotebookModel, indices: number[]): void {
+    if (!indices.length) {
+      return;
+    }
+    deselectAll(model);
+    removeCells(model, indices);
+    if (!model.cells.length) {
+      model.cells.add(model.createCodeCell());
+    }
+    model.activeCellIndex = Math.min(indices[0], model.cells.length - 1);
+  }
+
+  /**
+   * Create a copy of a cell of a notebook.
+   */
+  export
+  function cloneCell(model: INotebookModel, cell: ICellModel): ICellModel {
+    switch (cell.type) {
+    case 'code':
+      return model.createCodeCell(cell);
+    case 'markdown':
+      return model.createMarkdownCell(cell);
+    default:
+      return model.createRawCell(cell);
+    }
+  }
+
+  /**
+   * Find the index of the cell which contains a node.
+   *
+   * @returns The index of the cell, or `-1` if the node is not in a cell.
+   */
+  export
+  function findCell(panel: NotebookPanel, node: HTMLElement): number {
+    let layout = panel.notebook.layout as PanelLayout;
+    while (node && node !== panel.notebook.node) {
+      if (node.classList.contains(CELL_CLASS)) {
+        for (let i = 0; i < layout.childCount(); i++) {
+          if (layout.childAt(i).node === node) {
+            return i;
+          }
+        }
+        break;
+      }
+      node = node.parentElement;
+    }
+    return -1;
+  }
+
+  /**
+   * Create an empty cell of a type in a notebook.
+   */
+  export
+  function createCell(model: INotebookModel, type: string): ICellModel {
+    switch (type) {
+    case 'code':
+      return model.createCodeCell();
+    case 'markdown':
+      return model.createMarkdownCell();
+    default:
+      return model.createRawCell();
+    }
+  }
+}
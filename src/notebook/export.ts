@@ -0,0 +1,385 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IDisplayData, IError, IExecuteResult, INotebookModel, IOutput, IStream,
+  MimeBundle
+} from 'jupyter-js-notebook';
+
+import {
+  ICellModel, ICodeCellModel, isCodeCellModel, isMarkdownCellModel
+} from 'jupyter-js-notebook/lib/cells';
+
+import {
+  RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The mimetype used for console text outputs.
+ */
+const CONSOLE_MIMETYPE = 'application/vnd.jupyter.console-text';
+
+/**
+ * The mimetypes which are rendered for untrusted outputs.
+ */
+const SAFE_MIMETYPES = [
+  'text/plain', CONSOLE_MIMETYPE, 'text/latex', 'image/png', 'image/jpeg',
+  'image/gif'
+];
+
+/**
+ * The image mimetypes which are embedded in Markdown exports.
+ */
+const IMAGE_MIMETYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+/**
+ * The line comment prefixes of languages which do not use `#`.
+ */
+const COMMENT_PREFIXES: { [language: string]: string } = {
+  'c': '//',
+  'c++': '//',
+  'csharp': '//',
+  'go': '//',
+  'haskell': '--',
+  'java': '//',
+  'javascript': '//',
+  'lua': '--',
+  'matlab': '%',
+  'octave': '%',
+  'scala': '//',
+  'sql': '--',
+  'typescript': '//'
+};
+
+/**
+ * The style sheet of standalone HTML exports.
+ */
+const HTML_STYLE = `
+body { max-width: 960px; margin: 0 auto; padding: 16px; font-family: Helvetica, Arial, sans-serif; font-size: 14px; }
+.jp-Export-cell { margin-bottom: 16px; }
+.jp-Export-prompt { color: #757575; font-family: monospace; font-size: 12px; }
+.jp-Export-input { margin: 0; padding: 8px; background: #F5F5F5; border: 1px solid #E0E0E0; overflow: auto; }
+.jp-Export-output { padding: 4px 8px; overflow: auto; }
+.jp-Export-output pre { margin: 0; }
+.jp-Export-stderr { background: #FFDDDD; }
+img { max-width: 100%; }
+`;
+
+
+/**
+ * A notebook export format.
+ */
+export
+interface IExportFormat {
+  /**
+   * The display name of the format.
+   */
+  name: string;
+
+  /**
+   * Get the file extension of an export, including the leading dot.
+   */
+  extension(model: INotebookModel): string;
+
+  /**
+   * Get the mimetype of an export.
+   */
+  mimetype(model: INotebookModel): string;
+
+  /**
+   * Export a notebook model to text.
+   *
+   * @param model - The notebook model to export.
+   *
+   * @param rendermime - The rendermime used to render the outputs.
+   *
+   * @param title - The title of the exported document.
+   */
+  convert(model: INotebookModel, rendermime: RenderMime<Widget>, title: string): string;
+}
+
+
+/**
+ * The script export format.
+ *
+ * #### Notes
+ * Code cells are exported as they are, and Markdown cells as comments in
+ * the language of the notebook kernel.
+ */
+export
+const scriptFormat: IExportFormat = {
+  name: 'Script',
+  extension: (model: INotebookModel) => {
+    let info = model.languageInfo;
+    return (info && info.file_extension) || '.txt';
+  },
+  mimetype: (model: INotebookModel) => {
+    let info = model.languageInfo;
+    return (info && info.mimetype) || 'text/plain';
+  },
+  convert: (model: INotebookModel) => toScript(model)
+};
+
+
+/**
+ * The Markdown export format.
+ */
+export
+const markdownFormat: IExportFormat = {
+  name: 'Markdown',
+  extension: () => '.md',
+  mimetype: () => 'text/markdown',
+  convert: (model: INotebookModel) => toMarkdown(model)
+};
+
+
+/**
+ * The standalone HTML export format.
+ */
+export
+const htmlFormat: IExportFormat = {
+  name: 'HTML',
+  extension: () => '.html',
+  mimetype: () => 'text/html',
+  convert: toHTML
+};
+
+
+/**
+ * Export a notebook model as a script in the language of its kernel.
+ */
+export
+function toScript(model: INotebookModel): string {
+  let info = model.languageInfo;
+  let language = info && info.name ? info.name.toLowerCase() : '';
+  let prefix = COMMENT_PREFIXES[language] || '#';
+  let chunks: string[] = [];
+  Private.eachCell(model, cell => {
+    let source = cell.input.textEditor.text;
+    if (isCodeCellModel(cell)) {
+      let count = cell.executionCount;
+      chunks.push(`${prefix} In[${count === null ? ' ' : count}]:\n\n${source}`);
+    } else if (isMarkdownCellModel(cell)) {
+      chunks.push(source.split('\n').map(line => {
+        return line ? `${prefix} ${line}` : prefix;
+      }).join('\n'));
+    }
+  });
+  return chunks.join('\n\n\n') + '\n';
+}
+
+
+/**
+ * Export a notebook model as Markdown.
+ *
+ * #### Notes
+ * Code cells are exported as fenced code blocks followed by their text
+ * and image outputs.
+ */
+export
+function toMarkdown(model: INotebookModel): string {
+  let info = model.languageInfo;
+  let language = info && info.name ? info.name : '';
+  let chunks: string[] = [];
+  Private.eachCell(model, cell => {
+    let source = cell.input.textEditor.text;
+    if (isMarkdownCellModel(cell)) {
+      chunks.push(source);
+    } else if (isCodeCellModel(cell)) {
+      chunks.push('```' + language + '\n' + source + '\n```');
+      Private.eachOutput(cell, output => {
+        let text = Private.outputToMarkdown(output, cell.trusted);
+        if (text) chunks.push(text);
+      });
+    }
+  });
+  return chunks.join('\n\n') + '\n';
+}
+
+
+/**
+ * Export a notebook model as a standalone HTML document.
+ *
+ * @param model - The notebook model to export.
+ *
+ * @param rendermime - The rendermime used to render Markdown and outputs.
+ *
+ * @param title - The title of the document.
+ *
+ * #### Notes
+ * Javascript outputs are never exported, and untrusted outputs are
+ * limited to text and images.
+ */
+export
+function toHTML(model: INotebookModel, rendermime: RenderMime<Widget>, title: string): string {
+  let body: string[] = [];
+  Private.eachCell(model, cell => {
+    let source = cell.input.textEditor.text;
+    if (isMarkdownCellModel(cell)) {
+      let html = Private.renderBundle(rendermime, { 'text/markdown': source });
+      body.push(`<div class="jp-Export-cell">${html}</div>`);
+    } else if (isCodeCellModel(cell)) {
+      body.push(Private.codeCellToHTML(cell, rendermime));
+    }
+  });
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${Private.escapeHTML(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    body.join('\n'),
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+
+/**
+ * A namespace for notebook export private data.
+ */
+namespace Private {
+  /**
+   * Invoke a callback for each cell of a notebook model.
+   */
+  export
+  function eachCell(model: INotebookModel, callback: (cell: ICellModel) => void): void {
+    let cells = model.cells;
+    for (let i = 0; i < cells.length; i++) {
+      callback(cells.get(i));
+    }
+  }
+
+  /**
+   * Invoke a callback for each output of a code cell.
+   */
+  export
+  function eachOutput(cell: ICodeCellModel, callback: (output: IOutput) => void): void {
+    let outputs = cell.output.outputs;
+    for (let i = 0; i < outputs.length; i++) {
+      callback(outputs.get(i));
+    }
+  }
+
+  /**
+   * Get the mime bundle of an output.
+   *
+   * #### Notes
+   * Javascript is always removed, and untrusted outputs keep only the
+   * safe mimetypes.
+   */
+  export
+  function outputBundle(output: IOutput, trusted: boolean): MimeBundle {
+    let bundle: MimeBundle = {};
+    switch (output.output_type) {
+    case 'execute_result':
+    case 'display_data':
+      let data = (output as IDisplayData | IExecuteResult).data;
+      for (let key of Object.keys(data)) {
+        if (key === 'application/javascript') {
+          continue;
+        }
+        if (!trusted && SAFE_MIMETYPES.indexOf(key) === -1) {
+          continue;
+        }
+        bundle[key] = data[key];
+      }
+      break;
+    case 'stream':
+      bundle[CONSOLE_MIMETYPE] = (output as IStream).text;
+      break;
+    case 'error':
+      let error = output as IError;
+      let traceback = error.traceback.join('\n');
+      bundle[CONSOLE_MIMETYPE] = traceback || `${error.ename}: ${error.evalue}`;
+      break;
+    }
+    return bundle;
+  }
+
+  /**
+   * Render a mime bundle to HTML.
+   */
+  export
+  function renderBundle(rendermime: RenderMime<Widget>, bundle: MimeBundle): string {
+    if (Object.keys(bundle).length === 0) {
+      return '';
+    }
+    let widget = rendermime.render(bundle);
+    if (!widget) {
+      return '';
+    }
+    let html = widget.node.innerHTML;
+    widget.dispose();
+    return html;
+  }
+
+  /**
+   * Convert a code cell and its outputs to HTML.
+   */
+  export
+  function codeCellToHTML(cell: ICodeCellModel, rendermime: RenderMime<Widget>): string {
+    let count = cell.executionCount;
+    let source = cell.input.textEditor.text;
+    let parts = [
+      `<div class="jp-Export-prompt">In [${count === null ? ' ' : count}]:</div>`,
+      `<pre class="jp-Export-input">${escapeHTML(source)}</pre>`
+    ];
+    eachOutput(cell, output => {
+      let html = renderBundle(rendermime, outputBundle(output, cell.trusted));
+      let className = 'jp-Export-output';
+      if (output.output_type === 'stream' && (output as IStream).name === 'stderr') {
+        className += ' jp-Export-stderr';
+      }
+      if (html) parts.push(`<div class="${className}">${html}</div>`);
+    });
+    return `<div class="jp-Export-cell">${parts.join('\n')}</div>`;
+  }
+
+  /**
+   * Convert an output to Markdown.
+   */
+  export
+  function outputToMarkdown(output: IOutput, trusted: boolean): string {
+    let bundle = outputBundle(output, trusted);
+    for (let mimetype of IMAGE_MIMETYPES) {
+      if (bundle[mimetype]) {
+        let data = bundle[mimetype].replace(/\n/g, '');
+        return `![output](data:${mimetype};base64,${data})`;
+      }
+    }
+    if (bundle['text/markdown']) {
+      return bundle['text/markdown'];
+    }
+    if (bundle['text/html']) {
+      return bundle['text/html'];
+    }
+    let text = bundle['text/plain'] || bundle[CONSOLE_MIMETYPE];
+    if (!text) {
+      return '';
+    }
+    // Strip the ANSI escape sequences of console text.
+    text = text.replace(/\x1b\[[\d;]*m/g, '');
+    return text.split('\n').map(line => `    ${line}`).join('\n');
+  }
+
+  /**
+   * Escape text for use in HTML.
+   */
+  export
+  function escapeHTML(text: string): string {
+    let node = document.createElement('span');
+    node.textContent = text;
+    return node.innerHTML;
+  }
+}
@@ -0,0 +1,723 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  NotebookPanel
+} from 'jupyter-js-notebook';
+
+import {
+  CodeCellWidget, ICellModel, IMarkdownCellModel, isCodeCellModel,
+  isMarkdownCellModel
+} from 'jupyter-js-notebook/lib/cells';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  PanelLayout
+} from 'phosphor-panel';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  findEditor
+} from './cells';
+
+
+/**
+ * The class name added to find bar widgets.
+ */
+const FIND_BAR_CLASS = 'jp-FindBar';
+
+/**
+ * The class name added to the rows of a find bar.
+ */
+const ROW_CLASS = 'jp-FindBar-row';
+
+/**
+ * The class name added to the text inputs of a find bar.
+ */
+const INPUT_CLASS = 'jp-FindBar-input';
+
+/**
+ * The class name added to the match count of a find bar.
+ */
+const READOUT_CLASS = 'jp-FindBar-readout';
+
+/**
+ * The class name added to a find bar which shows the replace row.
+ */
+const REPLACE_CLASS = 'jp-mod-replace';
+
+/**
+ * The class name added to the matches in the cell editors.
+ */
+const MATCH_CLASS = 'jp-FindBar-match';
+
+/**
+ * The class name added to the current match in a cell editor.
+ */
+const CURRENT_CLASS = 'jp-FindBar-current';
+
+/**
+ * The class name added to an output area with the current match.
+ */
+const OUTPUT_MATCH_CLASS = 'jp-mod-findMatch';
+
+
+/**
+ * A bar which finds and replaces text in the cells of a notebook.
+ *
+ * #### Notes
+ * The matches in the cell sources are highlighted in the cell editors.
+ * Matches in the outputs are found when the outputs option is checked,
+ * they can be stepped through but are never replaced.
+ *
+ * The matches are searched again before each step, so the bar follows
+ * the edits made to the notebook.
+ */
+export
+class FindBar extends Widget {
+  /**
+   * Create the DOM node for a find bar.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let find = Private.createRow([
+      Private.createInput('find', 'Find'),
+      Private.createButton('previous', 'fa fa-arrow-up', 'Previous match'),
+      Private.createButton('next', 'fa fa-arrow-down', 'Next match'),
+      Private.createOption('regex', '.*', 'Regular expression'),
+      Private.createOption('case', 'Aa', 'Match case'),
+      Private.createOption('outputs', 'Outputs', 'Search the outputs'),
+      Private.createButton('close', 'fa fa-close', 'Close')
+    ]);
+    let readout = document.createElement('span');
+    readout.className = READOUT_CLASS;
+    find.insertBefore(readout, find.children[3]);
+    let replace = Private.createRow([
+      Private.createInput('replace', 'Replace'),
+      Private.createButton('replace', '', 'Replace', 'Replace'),
+      Private.createButton('replace-all', '', 'Replace all', 'All')
+    ]);
+    node.appendChild(find);
+    node.appendChild(replace);
+    return node;
+  }
+
+  /**
+   * Construct a new find bar.
+   *
+   * @param panel - The notebook panel to search.
+   */
+  constructor(panel: NotebookPanel) {
+    super();
+    this.addClass(FIND_BAR_CLASS);
+    this._panel = panel;
+    panel.model.cells.changed.connect(this._onCellsChanged, this);
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._clearMarks();
+    if (!this._panel.isDisposed) {
+      this._panel.model.cells.changed.disconnect(this._onCellsChanged, this);
+    }
+    this._panel = null;
+    super.dispose();
+  }
+
+  /**
+   * Get the notebook panel searched by the bar.
+   */
+  get panel(): NotebookPanel {
+    return this._panel;
+  }
+
+  /**
+   * Show the bar and focus the find input.
+   *
+   * @param replace - Whether to show the replace row.
+   */
+  open(replace: boolean): void {
+    this.toggleClass(REPLACE_CLASS, replace);
+    this.show();
+    let input = this._input('find');
+    input.focus();
+    input.select();
+    this._search(null);
+  }
+
+  /**
+   * Hide the bar and remove the highlights.
+   */
+  close(): void {
+    this._clearMarks();
+    this._matches = [];
+    this._current = -1;
+    this.hide();
+    this._panel.model.mode = 'command';
+    this._panel.notebook.node.focus();
+  }
+
+  /**
+   * Select the next match, after the current one.
+   *
+   * @param reverse - Whether to select the previous match instead.
+   */
+  findNext(reverse = false): void {
+    let current = this._matches[this._current] || null;
+    this._search(current);
+    let count = this._matches.length;
+    if (!count) {
+      return;
+    }
+    let index = this._current;
+    if (current && this._compare(this._matches[index], current) === 0) {
+      index += reverse ? -1 : 1;
+    } else if (reverse) {
+      index -= 1;
+    }
+    this._select((index + count) % count);
+  }
+
+  /**
+   * Replace the current match and select the next one.
+   *
+   * #### Notes
+   * Matches in the outputs are skipped.
+   */
+  replace(): void {
+    let current = this._matches[this._current] || null;
+    this._search(current);
+    let match = this._matches[this._current];
+    if (!match || this._panel.model.readOnly) {
+      return;
+    }
+    if (!current || match.output || this._compare(match, current) !== 0) {
+      this.findNext();
+      return;
+    }
+    let editor = match.cell.input.textEditor;
+    let text = editor.text;
+    let regex = this._createRegExp(false);
+    let value = replaceAt(text, regex, match.start, this._replacement());
+    if (value === null) {
+      this.findNext();
+      return;
+    }
+    editor.text = value;
+    let end = match.end + value.length - text.length;
+    let next = { cell: match.cell, output: false, start: end, end };
+    this._search(next);
+    if (this._matches.length) {
+      this._select(this._current);
+    }
+  }
+
+  /**
+   * Replace every match in the cell sources.
+   */
+  replaceAll(): void {
+    let model = this._panel.model;
+    let regex = this._createRegExp(true);
+    if (!regex || model.readOnly) {
+      return;
+    }
+    let value = this._replacement();
+    let count = 0;
+    for (let i = 0; i < model.cells.length; i++) {
+      let editor = model.cells.get(i).input.textEditor;
+      let matches = findAll(editor.text, regex);
+      if (matches.length) {
+        count += matches.length;
+        editor.text = editor.text.replace(regex, value);
+      }
+    }
+    this._search(null);
+    this._setReadout(`Replaced ${count}`);
+  }
+
+  /**
+   * Handle the DOM events for the widget.
+   *
+   * @param event - The DOM event sent to the widget.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the widget's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'input':
+      if ((event.target as HTMLInputElement).name === 'find') {
+        this._search(null);
+      }
+      break;
+    case 'change':
+      this._search(null);
+      break;
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    case 'click':
+      this._evtClick(event as MouseEvent);
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    let node = this.node;
+    node.addEventListener('input', this);
+    node.addEventListener('change', this);
+    node.addEventListener('keydown', this);
+    node.addEventListener('click', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    let node = this.node;
+    node.removeEventListener('input', this);
+    node.removeEventListener('change', this);
+    node.removeEventListener('keydown', this);
+    node.removeEventListener('click', this);
+    super.onBeforeDetach(msg);
+  }
+
+  /**
+   * Handle the `'keydown'` event for the widget.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    let target = event.target as HTMLInputElement;
+    if (event.keyCode === 27) {  // Escape
+      event.preventDefault();
+      event.stopPropagation();
+      this.close();
+    } else if (event.keyCode === 13) {  // Enter
+      event.preventDefault();
+      event.stopPropagation();
+      if (target.name === 'replace') {
+        this.replace();
+      } else {
+        this.findNext(event.shiftKey);
+      }
+    }
+  }
+
+  /**
+   * Handle the `'click'` event for the widget.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let target = event.target as HTMLElement;
+    while (target && target !== this.node && !target.dataset['action']) {
+      target = target.parentElement;
+    }
+    switch (target ? target.dataset['action'] : '') {
+    case 'previous':
+      this.findNext(true);
+      break;
+    case 'next':
+      this.findNext();
+      break;
+    case 'replace':
+      this.replace();
+      break;
+    case 'replace-all':
+      this.replaceAll();
+      break;
+    case 'close':
+      this.close();
+      break;
+    }
+  }
+
+  /**
+   * Handle a change to the cells of the notebook.
+   */
+  private _onCellsChanged(): void {
+    if (!this.isHidden) {
+      this._search(this._matches[this._current] || null);
+    }
+  }
+
+  /**
+   * Search the notebook and highlight the matches.
+   *
+   * @param from - The position the current match is searched from, or
+   *   `null` to search from the active cell.
+   */
+  private _search(from: Private.IMatch): void {
+    this._clearMarks();
+    this._matches = [];
+    this._current = -1;
+    let regex = this._createRegExp(true);
+    if (!regex) {
+      this._setReadout(this._input('find').value ? 'Invalid expression' : '');
+      return;
+    }
+    let model = this._panel.model;
+    let layout = this._panel.notebook.layout as PanelLayout;
+    for (let i = 0; i < model.cells.length; i++) {
+      let cell = model.cells.get(i);
+      for (let [start, end] of findAll(cell.input.textEditor.text, regex)) {
+        this._matches.push({ cell, output: false, start, end });
+      }
+      if (!this._option('outputs') || !isCodeCellModel(cell)) {
+        continue;
+      }
+      let widget = layout.childAt(i) as CodeCellWidget;
+      let text = widget ? widget.output.node.textContent : '';
+      for (let [start, end] of findAll(text, regex)) {
+        this._matches.push({ cell, output: true, start, end });
+      }
+    }
+    if (!from) {
+      let active = model.cells.get(model.activeCellIndex);
+      from = { cell: active, output: false, start: 0, end: 0 };
+    }
+    this._current = 0;
+    for (let i = 0; i < this._matches.length; i++) {
+      if (this._compare(this._matches[i], from) >= 0) {
+        this._current = i;
+        break;
+      }
+    }
+    this._highlight();
+  }
+
+  /**
+   * Make a match current and show it.
+   */
+  private _select(index: number): void {
+    let match = this._matches[index];
+    let model = this._panel.model;
+    this._current = index;
+    this._highlight();
+    model.activeCellIndex = model.cells.indexOf(match.cell);
+    if (match.output) {
+      return;
+    }
+    if (isMarkdownCellModel(match.cell)) {
+      (match.cell as IMarkdownCellModel).rendered = false;
+    }
+    let editor = findEditor(this._panel, model.activeCellIndex);
+    if (editor) {
+      let doc = editor.getDoc();
+      editor.scrollIntoView({
+        from: doc.posFromIndex(match.start),
+        to: doc.posFromIndex(match.end)
+      }, 20);
+    }
+  }
+
+  /**
+   * Highlight the matches and update the match count.
+   */
+  private _highlight(): void {
+    this._clearMarks();
+    let model = this._panel.model;
+    let layout = this._panel.notebook.layout as PanelLayout;
+    for (let i = 0; i < this._matches.length; i++) {
+      let match = this._matches[i];
+      let index = model.cells.indexOf(match.cell);
+      let className = i === this._current ? CURRENT_CLASS : MATCH_CLASS;
+      if (match.output) {
+        if (i === this._current) {
+          let widget = layout.childAt(index) as CodeCellWidget;
+          widget.output.addClass(OUTPUT_MATCH_CLASS);
+          this._output = widget.output;
+        }
+        continue;
+      }
+      let editor = findEditor(this._panel, index);
+      if (!editor) {
+        continue;
+      }
+      let doc = editor.getDoc();
+      let from = doc.posFromIndex(match.start);
+      let to = doc.posFromIndex(match.end);
+      this._marks.push(doc.markText(from, to, { className }));
+    }
+    let count = this._matches.length;
+    if (count) {
+      this._setReadout(`${this._current + 1} of ${count}`);
+    } else {
+      this._setReadout(this._input('find').value ? 'No results' : '');
+    }
+  }
+
+  /**
+   * Remove the highlights from the cell editors and outputs.
+   */
+  private _clearMarks(): void {
+    for (let mark of this._marks) {
+      mark.clear();
+    }
+    this._marks = [];
+    if (this._output) {
+      this._output.removeClass(OUTPUT_MATCH_CLASS);
+      this._output = null;
+    }
+  }
+
+  /**
+   * Compare the positions of two matches.
+   *
+   * #### Notes
+   * Matches are ordered by cell, then source before outputs, then by
+   * offset.
+   */
+  private _compare(a: Private.IMatch, b: Private.IMatch): number {
+    if (a.cell !== b.cell) {
+      let cells = this._panel.model.cells;
+      return cells.indexOf(a.cell) - cells.indexOf(b.cell);
+    }
+    if (a.output !== b.output) {
+      return a.output ? 1 : -1;
+    }
+    return a.start - b.start;
+  }
+
+  /**
+   * Create the regular expression for the find input and options.
+   *
+   * @param global - Whether to create a global expression.
+   *
+   * @returns The expression, or `null` if the input is empty or invalid.
+   */
+  private _createRegExp(global: boolean): RegExp {
+    let query = this._input('find').value;
+    if (!query) {
+      return null;
+    }
+    if (!this._option('regex')) {
+      query = escapeRegExp(query);
+    }
+    let flags = (global ? 'g' : '') + (this._option('case') ? '' : 'i');
+    try {
+      return new RegExp(query, flags);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Get the replacement pattern for the replace input.
+   *
+   * #### Notes
+   * The `$` patterns of a regular expression replacement are only used
+   * in regular expression mode.
+   */
+  private _replacement(): string {
+    let value = this._input('replace').value;
+    return this._option('regex') ? value : value.replace(/\$/g, '$$$$');
+  }
+
+  /**
+   * Get a text input of the bar by name.
+   */
+  private _input(name: string): HTMLInputElement {
+    return this.node.querySelector(`input[name="${name}"]`) as HTMLInputElement;
+  }
+
+  /**
+   * Test whether an option of the bar is checked.
+   */
+  private _option(name: string): boolean {
+    return this._input(name).checked;
+  }
+
+  /**
+   * Set the text of the match count.
+   */
+  private _setReadout(text: string): void {
+    this.node.getElementsByClassName(READOUT_CLASS)[0].textContent = text;
+  }
+
+  private _panel: NotebookPanel = null;
+  private _matches: Private.IMatch[] = [];
+  private _current = -1;
+  private _marks: CodeMirror.TextMarker[] = [];
+  private _output: Widget = null;
+}
+
+
+/**
+ * Find the start and end offsets of the matches in a text.
+ *
+ * @param text - The text to search.
+ *
+ * @param regex - A global regular expression.
+ *
+ * @returns The `[start, end]` offsets of the matches, in order.
+ *
+ * #### Notes
+ * An empty match is stepped over, so a pattern which matches the empty
+ * string finds each position once.
+ */
+export
+function findAll(text: string, regex: RegExp): [number, number][] {
+  let matches: [number, number][] = [];
+  regex.lastIndex = 0;
+  let match: RegExpExecArray;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push([match.index, match.index + match[0].length]);
+    if (!match[0].length) {
+      regex.lastIndex += 1;
+    }
+  }
+  regex.lastIndex = 0;
+  return matches;
+}
+
+
+/**
+ * Replace the match of a regular expression at an offset of a text.
+ *
+ * @param text - The text to change.
+ *
+ * @param regex - The regular expression.
+ *
+ * @param start - The offset of the match.
+ *
+ * @param replacement - The replacement pattern.
+ *
+ * @returns The text with the match replaced, or `null` if the
+ *   expression does not match at the offset.
+ *
+ * #### Notes
+ * The expression is matched against the whole text, so anchors, word
+ * boundaries and lookaheads see the text around the match.
+ */
+export
+function replaceAt(text: string, regex: RegExp, start: number, replacement: string): string {
+  let flags = (regex.ignoreCase ? 'i' : '') + (regex.multiline ? 'm' : '');
+  let sticky = new RegExp(regex.source, flags + 'y');
+  sticky.lastIndex = start;
+  if (!sticky.test(text)) {
+    return null;
+  }
+  sticky.lastIndex = start;
+  return text.replace(sticky, replacement);
+}
+
+
+/**
+ * Escape the special characters of a regular expression.
+ *
+ * @param text - The text to match literally.
+ *
+ * @returns A pattern which matches the text.
+ */
+export
+function escapeRegExp(text: string): string {
+  return text.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
+}
+
+
+/**
+ * A namespace for find bar private data.
+ */
+namespace Private {
+  /**
+   * A match in a cell.
+   */
+  export
+  interface IMatch {
+    /**
+     * The cell which contains the match.
+     */
+    cell: ICellModel;
+
+    /**
+     * Whether the match is in the outputs rather than the source.
+     */
+    output: boolean;
+
+    /**
+     * The offset of the start of the match.
+     */
+    start: number;
+
+    /**
+     * The offset of the end of the match.
+     */
+    end: number;
+  }
+
+  /**
+   * Create a row of a find bar.
+   */
+  export
+  function createRow(children: HTMLElement[]): HTMLElement {
+    let row = document.createElement('div');
+    row.className = ROW_CLASS;
+    for (let child of children) {
+      row.appendChild(child);
+    }
+    return row;
+  }
+
+  /**
+   * Create a text input.
+   */
+  export
+  function createInput(name: string, placeholder: string): HTMLElement {
+    let input = document.createElement('input');
+    input.className = INPUT_CLASS;
+    input.type = 'text';
+    input.name = name;
+    input.placeholder = placeholder;
+    return input;
+  }
+
+  /**
+   * Create a button which triggers an action.
+   */
+  export
+  function createButton(action: string, icon: string, title: string, text = ''): HTMLElement {
+    let button = document.createElement('button');
+    button.dataset['action'] = action;
+    button.title = title;
+    if (icon) {
+      let span = document.createElement('span');
+      span.className = icon;
+      button.appendChild(span);
+    }
+    if (text) {
+      button.appendChild(document.createTextNode(text));
+    }
+    return button;
+  }
+
+  /**
+   * Create a checkbox for a search option.
+   */
+  export
+  function createOption(name: string, text: string, title: string): HTMLElement {
+    let label = document.createElement('label');
+    let input = document.createElement('input');
+    input.type = 'checkbox';
+    input.name = name;
+    label.title = title;
+    label.appendChild(input);
+    label.appendChild(document.createTextNode(text));
+    return label;
+  }
+}
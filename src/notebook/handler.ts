@@ -0,0 +1,228 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  NotebookFileHandler, NotebookPanel, serialize
+} from 'jupyter-js-notebook';
+
+import {
+  IContentsManager, IContentsModel, IContentsOpts, INotebookSessionManager
+} from 'jupyter-js-services';
+
+import {
+  Property
+} from 'phosphor-properties';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  ITrustSettings, RenderMimeRegistry
+} from '../rendermime/registry';
+
+import {
+  NotebookNotary
+} from './trust';
+
+
+/**
+ * The class name added to the titles of untrusted notebooks.
+ */
+const UNTRUSTED_CLASS = 'jp-mod-untrusted';
+
+
+/**
+ * A notebook file handler which verifies the trust of notebooks.
+ *
+ * #### Notes
+ * A notebook opens trusted only when the notary knows its signature,
+ * the trusted state stored in the file is ignored.  The cells of an
+ * untrusted notebook are untrusted, so their HTML outputs are sanitized
+ * and their Javascript outputs are not run.
+ *
+ * A trusted notebook is signed each time it is saved.  When the
+ * `runUntrustedScripts` rendermime setting is on, the cells of every
+ * notebook are rendered as trusted, but an untrusted notebook is not
+ * signed and is rendered untrusted again when the setting is off.
+ */
+export
+class TrustingNotebookFileHandler extends NotebookFileHandler {
+  /**
+   * Construct a new notebook file handler.
+   *
+   * @param contents - The contents manager used to load and save files.
+   *
+   * @param session - The notebook session manager.
+   *
+   * @param rendermime - The rendermime registry used for the outputs.
+   *
+   * @param notary - The notary which remembers the trusted notebooks.
+   */
+  constructor(contents: IContentsManager, session: INotebookSessionManager, rendermime: RenderMimeRegistry, notary: NotebookNotary) {
+    super(contents, session, rendermime);
+    this._registry = rendermime;
+    this._notary = notary;
+    rendermime.settingsChanged.connect(this._onSettingsChanged, this);
+  }
+
+  /**
+   * A signal emitted when the trust of a notebook changes.
+   */
+  get trustChanged(): ISignal<TrustingNotebookFileHandler, NotebookPanel> {
+    return Private.trustChangedSignal.bind(this);
+  }
+
+  /**
+   * Test whether a notebook is trusted.
+   *
+   * @param panel - The notebook panel of interest.
+   *
+   * #### Notes
+   * A notebook is trusted when its signature was verified on open or
+   * when the user trusted it, regardless of the rendermime settings.
+   */
+  isTrusted(panel: NotebookPanel): boolean {
+    return Private.trustedProperty.get(panel);
+  }
+
+  /**
+   * Trust a notebook.
+   *
+   * @param panel - The notebook panel to trust.
+   *
+   * @returns A promise which resolves when the notebook is trusted.
+   *
+   * #### Notes
+   * The outputs are rendered again in the trusted state.  A notebook
+   * with unsaved changes is signed when it is saved.
+   */
+  trust(panel: NotebookPanel): Promise<void> {
+    Private.trustedProperty.set(panel, true);
+    this._render(panel);
+    this._updateTitle(panel);
+    this.trustChanged.emit(panel);
+    let path = this.findPath(panel);
+    if (path && this.isDirty(path)) {
+      return Promise.resolve(void 0);
+    }
+    return this._notary.trust(serialize(panel.model));
+  }
+
+  /**
+   * Get the options used to save the widget content.
+   *
+   * #### Notes
+   * The content of a trusted notebook is signed.  The notebook is saved
+   * even when it cannot be signed, it is then untrusted when reopened.
+   */
+  protected getSaveOptions(widget: NotebookPanel, path: string): Promise<IContentsOpts> {
+    return super.getSaveOptions(widget, path).then(opts => {
+      if (!this.isTrusted(widget)) {
+        return opts;
+      }
+      return this._notary.trust(opts.content).then(() => opts, () => opts);
+    });
+  }
+
+  /**
+   * Populate the notebook widget with the contents of the notebook.
+   *
+   * #### Notes
+   * The cells are marked with the verified trust before they are
+   * loaded, so untrusted outputs are never rendered as trusted.  A
+   * signature which cannot be verified leaves the notebook untrusted.
+   */
+  protected populateWidget(widget: NotebookPanel, model: IContentsModel): Promise<IContentsModel> {
+    if (this._panels.indexOf(widget) === -1) {
+      this._panels.push(widget);
+      widget.disposed.connect(this._onDisposed, this);
+    }
+    return this._notary.check(model.content).catch(() => false).then(trusted => {
+      Private.trustedProperty.set(widget, trusted);
+      let rendered = trusted || this._registry.settings.runUntrustedScripts;
+      for (let cell of model.content.cells || []) {
+        cell.metadata = cell.metadata || {};
+        cell.metadata.trusted = rendered;
+      }
+      return super.populateWidget(widget, model);
+    }).then(result => {
+      this._updateTitle(widget);
+      this.trustChanged.emit(widget);
+      return result;
+    });
+  }
+
+  /**
+   * Render the cells of a notebook with its trust and the settings.
+   *
+   * #### Notes
+   * The outputs of cells whose trust changes are rendered again.
+   */
+  private _render(panel: NotebookPanel): void {
+    let settings = this._registry.settings;
+    let trusted = this.isTrusted(panel) || settings.runUntrustedScripts;
+    let cells = panel.model.cells;
+    for (let i = 0; i < cells.length; i++) {
+      cells.get(i).trusted = trusted;
+    }
+  }
+
+  /**
+   * Handle a change to the rendermime settings.
+   */
+  private _onSettingsChanged(sender: RenderMimeRegistry, settings: ITrustSettings): void {
+    for (let panel of this._panels) {
+      this._render(panel);
+    }
+  }
+
+  /**
+   * Handle the disposal of a notebook panel.
+   */
+  private _onDisposed(sender: NotebookPanel): void {
+    let index = this._panels.indexOf(sender);
+    if (index !== -1) {
+      this._panels.splice(index, 1);
+    }
+  }
+
+  /**
+   * Mark the title of an untrusted notebook.
+   */
+  private _updateTitle(panel: NotebookPanel): void {
+    let names = panel.title.className.split(/\s+/).filter(name => {
+      return name && name !== UNTRUSTED_CLASS;
+    });
+    if (!this.isTrusted(panel)) {
+      names.push(UNTRUSTED_CLASS);
+    }
+    panel.title.className = names.join(' ');
+  }
+
+  private _registry: RenderMimeRegistry = null;
+  private _notary: NotebookNotary = null;
+  private _panels: NotebookPanel[] = [];
+}
+
+
+/**
+ * A namespace for notebook file handler private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when the trust of a notebook changes.
+   */
+  export
+  const trustChangedSignal = new Signal<TrustingNotebookFileHandler, NotebookPanel>();
+
+  /**
+   * A property which tracks whether a notebook is trusted.
+   */
+  export
+  const trustedProperty = new Property<NotebookPanel, boolean>({
+    name: 'trusted',
+    value: false
+  });
+}
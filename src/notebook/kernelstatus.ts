@@ -0,0 +1,151 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  INotebookModel
+} from 'jupyter-js-notebook';
+
+import {
+  IKernel, INotebookSession, KernelStatus
+} from 'jupyter-js-services';
+
+import {
+  IChangedArgs
+} from 'phosphor-properties';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to kernel status widgets.
+ */
+const KERNEL_STATUS_CLASS = 'jp-KernelStatus';
+
+/**
+ * The class name added to a kernel status widget with no kernel.
+ */
+const NO_KERNEL_CLASS = 'jp-mod-noKernel';
+
+
+/**
+ * A widget which displays the kernel status of a notebook.
+ *
+ * #### Notes
+ * The widget follows the session of its notebook model, so it stays
+ * current when the session or kernel of the notebook changes.
+ */
+export
+class KernelStatusWidget extends Widget {
+  /**
+   * Construct a new kernel status widget.
+   */
+  constructor() {
+    super();
+    this.addClass(KERNEL_STATUS_CLASS);
+    this._update();
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this.model = null;
+    super.dispose();
+  }
+
+  /**
+   * Get the notebook model displayed by the widget.
+   */
+  get model(): INotebookModel {
+    return this._model;
+  }
+
+  /**
+   * Set the notebook model displayed by the widget.
+   *
+   * #### Notes
+   * A `null` model displays no kernel.
+   */
+  set model(value: INotebookModel) {
+    if (this._model === value) {
+      return;
+    }
+    if (this._model) {
+      this._model.stateChanged.disconnect(this._onModelChanged, this);
+    }
+    this._model = value;
+    if (value) {
+      value.stateChanged.connect(this._onModelChanged, this);
+    }
+    this._setSession(value ? value.session : null);
+  }
+
+  /**
+   * Handle a change to the state of the notebook model.
+   */
+  private _onModelChanged(sender: INotebookModel, args: IChangedArgs<any>): void {
+    if (args.name === 'session') {
+      this._setSession(args.newValue as INotebookSession);
+    }
+  }
+
+  /**
+   * Set the session followed by the widget.
+   */
+  private _setSession(session: INotebookSession): void {
+    let old = this._session;
+    if (old === session) {
+      return;
+    }
+    if (old) {
+      old.statusChanged.disconnect(this._onSessionChanged, this);
+      old.kernelChanged.disconnect(this._onSessionChanged, this);
+      old.sessionDied.disconnect(this._onSessionChanged, this);
+    }
+    this._session = session;
+    if (session) {
+      session.statusChanged.connect(this._onSessionChanged, this);
+      session.kernelChanged.connect(this._onSessionChanged, this);
+      session.sessionDied.connect(this._onSessionChanged, this);
+    }
+    this._update();
+  }
+
+  /**
+   * Handle a change to the followed session.
+   */
+  private _onSessionChanged(): void {
+    this._update();
+  }
+
+  /**
+   * Update the displayed kernel name and status.
+   */
+  private _update(): void {
+    if (this._statusClass) {
+      this.removeClass(this._statusClass);
+      this._statusClass = '';
+    }
+    let session = this._session;
+    let kernel: IKernel = session ? session.kernel : null;
+    if (!kernel) {
+      this.addClass(NO_KERNEL_CLASS);
+      this.node.textContent = 'No Kernel';
+      this.node.title = 'The notebook has no running kernel';
+      return;
+    }
+    this.removeClass(NO_KERNEL_CLASS);
+    let status = KernelStatus[session.status];
+    this._statusClass = `jp-mod-${status.toLowerCase()}`;
+    this.addClass(this._statusClass);
+    this.node.textContent = `${kernel.name} | ${status}`;
+    this.node.title = `Kernel "${kernel.name}" is ${status.toLowerCase()}`;
+  }
+
+  private _model: INotebookModel = null;
+  private _session: INotebookSession = null;
+  private _statusClass = '';
+}
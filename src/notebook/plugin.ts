@@ -9,9 +9,9 @@ import {
 } from 'jupyter-js-notebook';
 
 import {
-  IContentsModel, IContentsManager, IContentsOpts,
+  ICheckpointModel, IContentsModel, IContentsManager, IContentsOpts,
   INotebookSessionManager, INotebookSession, IKernelSpecIds,
-  IKernelMessage, IComm, KernelStatus, getKernelSpecs
+  IKernelMessage, IComm, KernelStatus
 } from 'jupyter-js-services';
 
 import {
@@ -24,12 +24,12 @@ import {
 } from 'jupyter-js-ui/lib/renderers';
 
 import {
-  showDialog
-} from 'jupyter-js-ui/lib/dialog';
+  getConfigOption
+} from 'jupyter-js-utils';
 
 import {
-  FileHandlerRegistry
-} from 'jupyter-js-ui/lib/filehandler';
+  cancelButton, okButton, showDialog
+} from 'jupyter-js-ui/lib/dialog';
 
 import {
   Application
@@ -40,21 +40,66 @@ import {
 } from 'phosphor-panel';
 
 import {
-  ISignal, Signal
+  ISignal
 } from 'phosphor-signaling';
 
 import {
-  IChangedArgs
+  IChangedArgs, Property
 } from 'phosphor-properties';
 
 import {
   Widget
 } from 'phosphor-widget';
 
+import {
+  showError
+} from '../dialog';
+
+import {
+  WidgetTracker
+} from '../documenttracker/plugin';
+
+import {
+  DocumentRegistry
+} from '../filehandler/registry';
+
+import {
+  RenderMimeRegistry
+} from '../rendermime/registry';
+
 import {
   JupyterServices
 } from '../services/plugin';
 
+import {
+  IExportFormat, htmlFormat, markdownFormat, scriptFormat
+} from './export';
+
+import {
+  TrustingNotebookFileHandler
+} from './handler';
+
+import {
+  cutCells, deleteCells, followClicks, mergeCells, moveCells, selectAll,
+  selectedIndices, splitCell, undoDelete
+} from './cells';
+
+import {
+  FindBar
+} from './find';
+
+import {
+  KernelStatusWidget
+} from './kernelstatus';
+
+import {
+  clearOutputs, runCells
+} from './runner';
+
+import {
+  NotebookNotary
+} from './trust';
+
 import {
    WidgetManager
 } from './widgetmanager';
@@ -67,6 +112,15 @@ const cmdIds = {
   interrupt: 'notebook:interrupt-kernel',
   restart: 'notebook:restart-kernel',
   switchKernel: 'notebook:switch-kernel',
+  shutdown: 'notebook:shutdown-kernel',
+  reconnect: 'notebook:reconnect-kernel',
+  restartAndRunAll: 'notebook:restart-and-run-all',
+  restartAndClear: 'notebook:restart-and-clear',
+  runAll: 'notebook:run-all',
+  runAllAbove: 'notebook:run-all-above',
+  runAllBelow: 'notebook:run-all-below',
+  clearAllOutputs: 'notebook:clear-all-outputs',
+  clearOutputs: 'notebook-cells:clear-outputs',
   run: 'notebook-cells:run',
   runAndAdvance: 'notebook-cells:runAndAdvance',
   runAndInsert: 'notebook-cells:runAndInsert',
@@ -78,16 +132,47 @@ const cmdIds = {
   paste: 'notebook-cells:paste',
   insertAbove: 'notebook-cells:insert-above',
   insertBelow: 'notebook-cells:insert-below',
+  deleteCells: 'notebook-cells:delete',
+  undoDelete: 'notebook-cells:undo-delete',
+  moveUp: 'notebook-cells:move-up',
+  moveDown: 'notebook-cells:move-down',
+  mergeAbove: 'notebook-cells:merge-above',
+  mergeBelow: 'notebook-cells:merge-below',
+  split: 'notebook-cells:split',
   selectPrevious: 'notebook-cells:select-previous',
   selectNext: 'notebook-cells:select-next',
+  extendAbove: 'notebook-cells:extend-selection-above',
+  extendBelow: 'notebook-cells:extend-selection-below',
+  extendAboveAlt: 'notebook-cells:extend-selection-above-alt',
+  extendBelowAlt: 'notebook-cells:extend-selection-below-alt',
+  selectAll: 'notebook-cells:select-all',
   toggleLinenumbers: 'notebook-cells:toggle-linenumbers',
   toggleAllLinenumbers: 'notebook:toggle-allLinenumbers',
   editMode: 'notebook-cells:editMode',
   commandMode: 'notebook-cells:commandMode',
-  newNotebook: 'notebook:create-new'
+  newNotebook: 'notebook:create-new',
+  createCheckpoint: 'notebook:create-checkpoint',
+  listCheckpoints: 'notebook:list-checkpoints',
+  restoreCheckpoint: 'notebook:restore-checkpoint',
+  exportScript: 'notebook:export-script',
+  exportMarkdown: 'notebook:export-markdown',
+  exportHTML: 'notebook:export-html',
+  trust: 'notebook:trust',
+  find: 'notebook:find',
+  findReplace: 'notebook:find-and-replace'
 };
 
 
+/**
+ * The default autosave interval for notebooks, in seconds.
+ *
+ * #### Notes
+ * This can be changed with the `autosaveInterval` page config option,
+ * where a value of `0` disables autosave.
+ */
+const AUTOSAVE_INTERVAL = 120;
+
+
 /**
  * The class name added to notebook container widgets.
  */
@@ -106,36 +191,36 @@ let WIDGET_CLASS = 'jp-NotebookPane-widget';
 
 
 /**
- * The notebook file handler provider.
- */
-export
-const notebookHandlerExtension = {
-  id: 'jupyter.extensions.notebookHandler',
-  requires: [FileHandlerRegistry, JupyterServices, RenderMime],
-  activate: activateNotebookHandler
-};
-
-
-/**
- * An interface exposing the current active notebook.
+ * A tracker for the open notebooks and the current active notebook.
  */
 export
-class ActiveNotebook {
+class ActiveNotebook extends WidgetTracker<NotebookPanel> {
   /**
    * A signal emitted when the active notebook changes.
    */
   get activeNotebookChanged(): ISignal<ActiveNotebook, NotebookPanel> {
-    return Private.activeNotebookChangedSignal.bind(this);
+    return this.activeWidgetChanged as ISignal<ActiveNotebook, NotebookPanel>;
   }
 
   /**
    * Get the current active notebook.
    *
    * #### Notes
-   * This is a read-only property.
+   * This is a read-only property.  It is `null` when there are no
+   * open notebooks.
    */
   get activeNotebook(): NotebookPanel {
-    return Private.activeWidget;
+    return this.activeWidget;
+  }
+
+  /**
+   * Get the list of open notebooks.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get notebooks(): NotebookPanel[] {
+    return this.widgets;
   }
 }
 
@@ -150,150 +235,392 @@ const activeNotebookProvider = {
   resolve: () => {
     return new ActiveNotebook();
   }
-}
+};
+
+
+/**
+ * The notebook file handler provider.
+ */
+export
+const notebookHandlerExtension = {
+  id: 'jupyter.extensions.notebookHandler',
+  requires: [DocumentRegistry, JupyterServices, RenderMimeRegistry, ActiveNotebook],
+  activate: activateNotebookHandler
+};
 
 
 /**
  * Activate the notebook handler extension.
  */
-function activateNotebookHandler(app: Application, registry: FileHandlerRegistry, services: JupyterServices, rendermime: RenderMime<Widget>): Promise<void> {
-  let handler = new NotebookFileHandler(
+function activateNotebookHandler(app: Application, registry: DocumentRegistry, services: JupyterServices, rendermime: RenderMimeRegistry, tracker: ActiveNotebook): Promise<void> {
+  let handler = new TrustingNotebookFileHandler(
     services.contentsManager,
     services.notebookSessionManager,
-    rendermime
+    rendermime,
+    new NotebookNotary()
   );
-  registry.addHandler(handler);
+  registry.addHandler(handler, { name: 'Notebook' });
 
   let creator = new NotebookCreator(handler);
   registry.addCreator('New Notebook', creator.createNew.bind(creator));
 
-  // Temporary notebook focus follower.
-  document.body.addEventListener('focus', event => {
-    for (let widget of Private.widgets) {
-      let target = event.target as HTMLElement;
-      if (widget.isAttached && widget.isVisible) {
-        if (widget.node.contains(target)) {
-          Private.activeWidget = widget;
-          return;
-        }
-      }
+  // Track the opened notebooks, give each one a kernel status and
+  // follow the clicks which select cells.
+  handler.opened.connect((h, widget) => {
+    tracker.add(widget);
+    if (!Private.kernelStatusProperty.get(widget)) {
+      let status = new KernelStatusWidget();
+      status.model = widget.model;
+      widget.insertChild(1, status);
+      Private.kernelStatusProperty.set(widget, status);
+      followClicks(widget);
     }
-  }, true);
+  });
 
-  // Add opened notebooks to the widget list temporarily
-  handler.opened.connect((h, widget) => {
-    Private.activeWidget = widget;
-    Private.widgets.push(widget);
+  // Show the kernel status of the active notebook in the shell.
+  let globalStatus = new KernelStatusWidget();
+  globalStatus.id = 'kernel-status';
+  app.shell.addToTopArea(globalStatus);
+  tracker.activeNotebookChanged.connect((sender, panel) => {
+    globalStatus.model = panel ? panel.model : null;
   });
 
+  // Periodically save the open notebooks with unsaved changes.
+  let interval = Private.getAutosaveInterval();
+  if (interval > 0) {
+    setInterval(() => {
+      for (let panel of tracker.notebooks) {
+        let path = handler.findPath(panel);
+        if (!path || !handler.isDirty(path) || panel.model.readOnly) {
+          continue;
+        }
+        // Conflicts are left for the user to resolve on an explicit save,
+        // and a failed save is tried again on the next interval.
+        registry.saveIfUnchanged(path, panel).catch(() => void 0);
+      }
+    }, interval * 1000);
+  }
+
+  let contents = services.contentsManager;
+
   app.commands.add([
   {
     id: cmdIds['runAndAdvance'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.runAndAdvance();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.runAndAdvance();
     }
   },
   {
     id: cmdIds['run'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.run();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.run();
     }
   },
   {
     id: cmdIds['runAndInsert'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.runAndInsert();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.runAndInsert();
     }
   },
   {
     id: cmdIds['restart'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.restart();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.restart();
+    }
+  },
+  {
+    id: cmdIds['shutdown'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      let session = panel ? panel.model.session : null;
+      if (!session || !session.kernel) {
+        return;
+      }
+      showDialog({
+        title: 'Shutdown Kernel?',
+        body: `Shutdown the "${session.kernel.name}" kernel?`,
+        host: panel.node,
+        okText: 'SHUTDOWN'
+      }).then(result => {
+        if (result && result.text === 'SHUTDOWN') {
+          return session.shutdown();
+        }
+      }).catch(error => showError('Shutdown failed', error, panel.node));
+    }
+  },
+  {
+    id: cmdIds['reconnect'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      let path = panel ? handler.findPath(panel) : null;
+      if (!path) {
+        return;
+      }
+      Private.reconnect(panel, path, services.notebookSessionManager);
+    }
+  },
+  {
+    id: cmdIds['restartAndRunAll'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      let session = panel ? panel.model.session : null;
+      if (!session || !session.kernel) {
+        return;
+      }
+      showDialog({
+        title: 'Restart Kernel?',
+        body: 'Do you want to restart the current kernel and re-run ' +
+              'the whole notebook? All variables will be lost.',
+        host: panel.node,
+        okText: 'RESTART'
+      }).then(result => {
+        if (result && result.text === 'RESTART') {
+          return panel.manager.restart().then(() => {
+            return runCells(panel, panel.model.cells.slice());
+          });
+        }
+      }).catch(error => showError('Run failed', error, panel.node));
+    }
+  },
+  {
+    id: cmdIds['restartAndClear'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      let session = panel ? panel.model.session : null;
+      if (!session || !session.kernel) {
+        return;
+      }
+      showDialog({
+        title: 'Restart Kernel?',
+        body: 'Do you want to restart the current kernel and clear ' +
+              'all outputs? All variables will be lost.',
+        host: panel.node,
+        okText: 'RESTART'
+      }).then(result => {
+        if (result && result.text === 'RESTART') {
+          return panel.manager.restart().then(() => {
+            clearOutputs(panel.model.cells.slice());
+          });
+        }
+      }).catch(error => showError('Restart failed', error, panel.node));
+    }
+  },
+  {
+    id: cmdIds['runAll'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (!panel) {
+        return;
+      }
+      runCells(panel, panel.model.cells.slice()).catch(error => {
+        showError('Run failed', error, panel.node);
+      });
+    }
+  },
+  {
+    id: cmdIds['runAllAbove'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (!panel) {
+        return;
+      }
+      let model = panel.model;
+      runCells(panel, model.cells.slice(0, model.activeCellIndex)).catch(error => {
+        showError('Run failed', error, panel.node);
+      });
+    }
+  },
+  {
+    id: cmdIds['runAllBelow'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (!panel) {
+        return;
+      }
+      let model = panel.model;
+      runCells(panel, model.cells.slice(model.activeCellIndex)).catch(error => {
+        showError('Run failed', error, panel.node);
+      });
+    }
+  },
+  {
+    id: cmdIds['clearAllOutputs'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) clearOutputs(panel.model.cells.slice());
+    }
+  },
+  {
+    id: cmdIds['clearOutputs'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (!panel) {
+        return;
+      }
+      let model = panel.model;
+      clearOutputs(selectedIndices(model).map(i => model.cells.get(i)));
     }
   },
   {
     id: cmdIds['interrupt'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.interrupt();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.interrupt();
     }
   },
   {
     id: cmdIds['toCode'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.changeCellType('code'); }
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.changeCellType('code');
+    }
   },
   {
     id: cmdIds['toMarkdown'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.changeCellType('markdown'); }
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.changeCellType('markdown');
+    }
   },
   {
     id: cmdIds['toRaw'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.changeCellType('raw');
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.changeCellType('raw');
     }
   },
   {
     id: cmdIds['cut'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.cut();
+      let panel = tracker.activeNotebook;
+      if (panel) cutCells(panel);
     }
   },
   {
     id: cmdIds['copy'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.copy();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.copy();
     }
   },
   {
     id: cmdIds['paste'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.paste();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.paste();
     }
   },
   {
     id: cmdIds['insertAbove'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.insertAbove();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.insertAbove();
     }
   },
   {
     id: cmdIds['insertBelow'],
     handler: () => {
-      let manager = Private.activeWidget.manager;
-      if (manager) manager.insertBelow();
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.insertBelow();
+    }
+  },
+  {
+    id: cmdIds['deleteCells'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) deleteCells(panel.model);
+    }
+  },
+  {
+    id: cmdIds['undoDelete'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) undoDelete(panel.model);
+    }
+  },
+  {
+    id: cmdIds['moveUp'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) moveCells(panel.model, true);
+    }
+  },
+  {
+    id: cmdIds['moveDown'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) moveCells(panel.model, false);
+    }
+  },
+  {
+    id: cmdIds['mergeAbove'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) mergeCells(panel.model, true);
+    }
+  },
+  {
+    id: cmdIds['mergeBelow'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) mergeCells(panel.model, false);
+    }
+  },
+  {
+    id: cmdIds['split'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) splitCell(panel);
     }
   },
   {
     id: cmdIds['selectPrevious'],
     handler: () => {
-      let model = Private.activeWidget.model;
-      if (model) model.activeCellIndex -= 1;
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.selectAbove();
     }
   },
   {
     id: cmdIds['selectNext'],
     handler: () => {
-      let model = Private.activeWidget.model;;
-      if (model) model.activeCellIndex += 1;
+      let panel = tracker.activeNotebook;
+      if (panel) panel.manager.selectBelow();
+    }
+  },
+  {
+    id: cmdIds['extendAbove'],
+    handler: extendAbove
+  },
+  {
+    id: cmdIds['extendBelow'],
+    handler: extendBelow
+  },
+  // The shortcut registry holds one sequence per command, so the second
+  // shortcuts for extending the selection use their own commands.
+  {
+    id: cmdIds['extendAboveAlt'],
+    handler: extendAbove
+  },
+  {
+    id: cmdIds['extendBelowAlt'],
+    handler: extendBelow
+  },
+  {
+    id: cmdIds['selectAll'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) selectAll(panel.model);
     }
   },
   {
     id: cmdIds['toggleLinenumbers'],
     handler: () => {
-      let model = Private.activeWidget.model;
+      let panel = tracker.activeNotebook;
+      let model = panel ? panel.model : null;
       if (model) {
         let cell = model.cells.get(model.activeCellIndex);
         let lineNumbers = cell.input.textEditor.lineNumbers;
@@ -309,7 +636,8 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
   {
     id: cmdIds['toggleAllLinenumbers'],
     handler: () => {
-      let model = Private.activeWidget.model;
+      let panel = tracker.activeNotebook;
+      let model = panel ? panel.model : null;
       if (model) {
         let cell = model.cells.get(model.activeCellIndex);
         let lineNumbers = cell.input.textEditor.lineNumbers;
@@ -323,17 +651,33 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
   {
     id: cmdIds['commandMode'],
     handler: () => {
-      let model = Private.activeWidget.model;
+      let panel = tracker.activeNotebook;
+      let model = panel ? panel.model : null;
       if (model) model.mode = 'command';
     }
   },
   {
     id: cmdIds['editMode'],
     handler: () => {
-      let model = Private.activeWidget.model;
+      let panel = tracker.activeNotebook;
+      let model = panel ? panel.model : null;
       if (model) model.mode = 'edit';
     }
   },
+  {
+    id: cmdIds['find'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) Private.getFindBar(panel).open(false);
+    }
+  },
+  {
+    id: cmdIds['findReplace'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) Private.getFindBar(panel).open(true);
+    }
+  },
   {
     id: cmdIds['newNotebook'],
     handler: () => {
@@ -342,6 +686,97 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
       });
     }
   },
+  {
+    id: cmdIds['createCheckpoint'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      let path = panel ? handler.findPath(panel) : null;
+      if (!path) {
+        return;
+      }
+      registry.save(path, panel).then(model => {
+        if (model) return contents.createCheckpoint(path);
+      }).catch(error => {
+        showError('Checkpoint failed', error, panel.node);
+      });
+    }
+  },
+  {
+    id: cmdIds['listCheckpoints'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      let path = panel ? handler.findPath(panel) : null;
+      if (!path) {
+        return;
+      }
+      contents.listCheckpoints(path).then(checkpoints => {
+        return showDialog({
+          title: 'Checkpoints',
+          body: Private.createCheckpointList(checkpoints),
+          host: panel.node,
+          buttons: [okButton]
+        });
+      }).catch(error => {
+        showError('Could not list checkpoints', error, panel.node);
+      });
+    }
+  },
+  {
+    id: cmdIds['restoreCheckpoint'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      let path = panel ? handler.findPath(panel) : null;
+      if (!path) {
+        return;
+      }
+      let select: HTMLSelectElement;
+      contents.listCheckpoints(path).then(checkpoints => {
+        if (!checkpoints.length) {
+          return showDialog({
+            title: 'Restore Checkpoint',
+            body: 'There are no checkpoints for this notebook.',
+            host: panel.node,
+            buttons: [okButton]
+          }).then(() => void 0);
+        }
+        select = Private.createCheckpointSelect(checkpoints);
+        return showDialog({
+          title: 'Restore Checkpoint',
+          body: select,
+          host: panel.node,
+          okText: 'RESTORE'
+        }).then(result => {
+          if (!result || result.text !== 'RESTORE') {
+            return;
+          }
+          return contents.restoreCheckpoint(path, select.value).then(() => {
+            return registry.revert(path, panel);
+          });
+        });
+      }).catch(error => {
+        showError('Restore failed', error, panel.node);
+      });
+    }
+  },
+  {
+    id: cmdIds['exportScript'],
+    handler: () => { exportActive(scriptFormat); }
+  },
+  {
+    id: cmdIds['exportMarkdown'],
+    handler: () => { exportActive(markdownFormat); }
+  },
+  {
+    id: cmdIds['exportHTML'],
+    handler: () => { exportActive(htmlFormat); }
+  },
+  {
+    id: cmdIds['trust'],
+    handler: () => {
+      let panel = tracker.activeNotebook;
+      if (panel) Private.trustNotebook(panel, handler);
+    }
+  }
   ]);
   app.palette.add([
   {
@@ -369,6 +804,51 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
     category: 'Notebook Operations',
     text: 'Restart Kernel'
   },
+  {
+    command: cmdIds['restartAndRunAll'],
+    category: 'Notebook Operations',
+    text: 'Restart Kernel and Run All'
+  },
+  {
+    command: cmdIds['restartAndClear'],
+    category: 'Notebook Operations',
+    text: 'Restart Kernel and Clear All Outputs'
+  },
+  {
+    command: cmdIds['runAll'],
+    category: 'Notebook Operations',
+    text: 'Run All Cells'
+  },
+  {
+    command: cmdIds['runAllAbove'],
+    category: 'Notebook Operations',
+    text: 'Run All Above'
+  },
+  {
+    command: cmdIds['runAllBelow'],
+    category: 'Notebook Operations',
+    text: 'Run Selected Cell and All Below'
+  },
+  {
+    command: cmdIds['clearAllOutputs'],
+    category: 'Notebook Operations',
+    text: 'Clear All Outputs'
+  },
+  {
+    command: cmdIds['clearOutputs'],
+    category: 'Notebook Cell Operations',
+    text: 'Clear output(s)'
+  },
+  {
+    command: cmdIds['shutdown'],
+    category: 'Notebook Operations',
+    text: 'Shutdown Kernel'
+  },
+  {
+    command: cmdIds['reconnect'],
+    category: 'Notebook Operations',
+    text: 'Reconnect to Kernel'
+  },
   {
     command: cmdIds['toCode'],
     category: 'Notebook Cell Operations',
@@ -409,6 +889,41 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
     category: 'Notebook Cell Operations',
     text: 'Insert cell below'
   },
+  {
+    command: cmdIds['deleteCells'],
+    category: 'Notebook Cell Operations',
+    text: 'Delete cell(s)'
+  },
+  {
+    command: cmdIds['undoDelete'],
+    category: 'Notebook Cell Operations',
+    text: 'Undo cell deletion'
+  },
+  {
+    command: cmdIds['moveUp'],
+    category: 'Notebook Cell Operations',
+    text: 'Move cell(s) up'
+  },
+  {
+    command: cmdIds['moveDown'],
+    category: 'Notebook Cell Operations',
+    text: 'Move cell(s) down'
+  },
+  {
+    command: cmdIds['mergeAbove'],
+    category: 'Notebook Cell Operations',
+    text: 'Merge cell with previous'
+  },
+  {
+    command: cmdIds['mergeBelow'],
+    category: 'Notebook Cell Operations',
+    text: 'Merge cell with next'
+  },
+  {
+    command: cmdIds['split'],
+    category: 'Notebook Cell Operations',
+    text: 'Split cell at cursor'
+  },
   {
     command: cmdIds['selectPrevious'],
     category: 'Notebook Cell Operations',
@@ -419,6 +934,21 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
     category: 'Notebook Cell Operations',
     text: 'Select next cell'
   },
+  {
+    command: cmdIds['extendAbove'],
+    category: 'Notebook Cell Operations',
+    text: 'Extend selection above'
+  },
+  {
+    command: cmdIds['extendBelow'],
+    category: 'Notebook Cell Operations',
+    text: 'Extend selection below'
+  },
+  {
+    command: cmdIds['selectAll'],
+    category: 'Notebook Cell Operations',
+    text: 'Select all cells'
+  },
   {
     command: cmdIds['toggleLinenumbers'],
     category: 'Notebook Cell Operations',
@@ -438,18 +968,64 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
     command: cmdIds['commandMode'],
     category: 'Notebook Cell Operations',
     text: 'To Command Mode'
+  },
+  {
+    command: cmdIds['createCheckpoint'],
+    category: 'Notebook Operations',
+    text: 'Save and Checkpoint'
+  },
+  {
+    command: cmdIds['listCheckpoints'],
+    category: 'Notebook Operations',
+    text: 'List Checkpoints'
+  },
+  {
+    command: cmdIds['restoreCheckpoint'],
+    category: 'Notebook Operations',
+    text: 'Restore Checkpoint'
+  },
+  {
+    command: cmdIds['exportScript'],
+    category: 'Notebook Operations',
+    text: 'Export as Script'
+  },
+  {
+    command: cmdIds['exportMarkdown'],
+    category: 'Notebook Operations',
+    text: 'Export as Markdown'
+  },
+  {
+    command: cmdIds['exportHTML'],
+    category: 'Notebook Operations',
+    text: 'Export as HTML'
+  },
+  {
+    command: cmdIds['trust'],
+    category: 'Notebook Operations',
+    text: 'Trust Notebook'
+  },
+  {
+    command: cmdIds['find'],
+    category: 'Notebook Operations',
+    text: 'Find'
+  },
+  {
+    command: cmdIds['findReplace'],
+    category: 'Notebook Operations',
+    text: 'Find and Replace'
   }
   ]);
 
-  getKernelSpecs({}).then(specs => {
+  services.notebookSessionManager.getSpecs().then(specs => {
     app.commands.add([
     {
       id: cmdIds['switchKernel'],
       handler: () => {
-        let model = Private.activeWidget.model;
-        let name = model.kernelspec.name;
-        if (model) {
-          selectKernel(Private.activeWidget.parent.node, name, specs).then(newName => {
+        let panel = tracker.activeNotebook;
+        if (panel) {
+          let model = panel.model;
+          let name = model.kernelspec.name;
+          selectKernel(panel.parent.node, name, specs).then(newName => {
             if (newName) model.session.changeKernel({name: newName});
           });
         }
@@ -464,6 +1040,27 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
   });
 
   return Promise.resolve(void 0);
+
+  function extendAbove(): void {
+    let panel = tracker.activeNotebook;
+    if (panel) panel.manager.extendSelectionAbove();
+  }
+
+  function extendBelow(): void {
+    let panel = tracker.activeNotebook;
+    if (panel) panel.manager.extendSelectionBelow();
+  }
+
+  function exportActive(format: IExportFormat): void {
+    let panel = tracker.activeNotebook;
+    let path = panel ? handler.findPath(panel) : null;
+    if (!path) {
+      return;
+    }
+    Private.exportNotebook(panel, path, format, rendermime, contents).catch(error => {
+      showError('Export failed', error, panel.node);
+    });
+  }
 }
 
 
@@ -471,12 +1068,190 @@ function activateNotebookHandler(app: Application, registry: FileHandlerRegistry
  * A namespace for notebook plugin private data.
  */
 namespace Private {
+  /**
+   * An attached property for the kernel status widget of a notebook.
+   */
+  export
+  const kernelStatusProperty = new Property<NotebookPanel, KernelStatusWidget>({
+    name: 'kernelStatus',
+    value: null
+  });
+
+  /**
+   * An attached property for the find bar of a notebook.
+   */
   export
-  var activeWidget: NotebookPanel = null;
+  const findBarProperty = new Property<NotebookPanel, FindBar>({
+    name: 'findBar',
+    value: null
+  });
 
+  /**
+   * Get the find bar of a notebook, creating it the first time.
+   */
   export
-  var widgets: NotebookPanel[] = [];
+  function getFindBar(panel: NotebookPanel): FindBar {
+    let bar = findBarProperty.get(panel);
+    if (!bar) {
+      bar = new FindBar(panel);
+      bar.hide();
+      panel.insertChild(1, bar);
+      findBarProperty.set(panel, bar);
+    }
+    return bar;
+  }
 
+  /**
+   * Reconnect a notebook to the session for its path.
+   *
+   * #### Notes
+   * A new session is started if there is no running session for the path.
+   */
   export
-  const activeNotebookChangedSignal = new Signal<ActiveNotebook, NotebookPanel>();
+  function reconnect(panel: NotebookPanel, path: string, sessions: INotebookSessionManager): Promise<void> {
+    let model = panel.model;
+    return sessions.findByPath(path).then(sessionId => {
+      return sessions.connectTo(sessionId.id);
+    }, () => {
+      let kernelName = model.kernelspec.name;
+      return sessions.startNew({ notebookPath: path, kernelName });
+    }).then(session => {
+      let old = model.session;
+      model.session = session;
+      if (old && old !== session && !old.isDisposed) {
+        old.dispose();
+      }
+    }).catch(error => {
+      return showError('Reconnect failed', error, panel.node);
+    });
+  }
+
+  /**
+   * Get the autosave interval in seconds from the page config.
+   */
+  export
+  function getAutosaveInterval(): number {
+    let value: string = getConfigOption('autosaveInterval');
+    if (!value) {
+      return AUTOSAVE_INTERVAL;
+    }
+    let interval = Number(value);
+    return isNaN(interval) ? AUTOSAVE_INTERVAL : interval;
+  }
+
+  /**
+   * Create the dialog body listing the checkpoints of a notebook.
+   */
+  export
+  function createCheckpointList(checkpoints: ICheckpointModel[]): HTMLElement {
+    let node = document.createElement('ul');
+    if (!checkpoints.length) {
+      node.textContent = 'There are no checkpoints for this notebook.';
+      return node;
+    }
+    for (let checkpoint of checkpoints) {
+      let item = document.createElement('li');
+      item.textContent = formatCheckpoint(checkpoint);
+      node.appendChild(item);
+    }
+    return node;
+  }
+
+  /**
+   * Create a select node for choosing a notebook checkpoint.
+   */
+  export
+  function createCheckpointSelect(checkpoints: ICheckpointModel[]): HTMLSelectElement {
+    let select = document.createElement('select');
+    for (let checkpoint of checkpoints) {
+      let option = document.createElement('option');
+      option.value = checkpoint.id;
+      option.textContent = formatCheckpoint(checkpoint);
+      select.appendChild(option);
+    }
+    return select;
+  }
+
+  /**
+   * Trust a notebook after confirming with the user.
+   */
+  export
+  function trustNotebook(panel: NotebookPanel, handler: TrustingNotebookFileHandler): Promise<void> {
+    if (handler.isTrusted(panel)) {
+      return showDialog({
+        title: 'Notebook is trusted',
+        body: 'The outputs of this notebook are already trusted.',
+        host: panel.node,
+        buttons: [okButton]
+      }).then(() => void 0);
+    }
+    return showDialog({
+      title: 'Trust this notebook?',
+      body: 'A trusted notebook may run hidden malicious code when ' +
+            'you open it.  Trusting renders its HTML and Javascript ' +
+            'outputs as they are.',
+      host: panel.node,
+      okText: 'TRUST'
+    }).then(result => {
+      if (result && result.text === 'TRUST') {
+        return handler.trust(panel);
+      }
+    }).catch(error => showError('Trust failed', error, panel.node));
+  }
+
+  /**
+   * Export a notebook and download it or save it next to the notebook.
+   */
+  export
+  function exportNotebook(panel: NotebookPanel, path: string, format: IExportFormat, rendermime: RenderMime<Widget>, contents: IContentsManager): Promise<void> {
+    let model = panel.model;
+    let index = path.lastIndexOf('/');
+    let dirname = path.slice(0, index + 1);
+    let basename = path.slice(index + 1).replace(/\.ipynb$/, '');
+    let name = basename + format.extension(model);
+    let text = format.convert(model, rendermime, basename);
+    let saveButton = { text: 'SAVE', className: okButton.className };
+    return showDialog({
+      title: `Export as ${format.name}`,
+      body: `Download "${name}" or save it next to the notebook?`,
+      host: panel.node,
+      buttons: [cancelButton, saveButton, okButton],
+      okText: 'DOWNLOAD'
+    }).then(result => {
+      if (!result) {
+        return;
+      }
+      if (result.text === 'DOWNLOAD') {
+        download(name, text, format.mimetype(model));
+      } else if (result.text === 'SAVE') {
+        return contents.save(dirname + name, {
+          type: 'file',
+          format: 'text',
+          content: text
+        }).then(() => void 0);
+      }
+    });
+  }
+
+  /**
+   * Download text as a file.
+   */
+  function download(name: string, text: string, mimetype: string): void {
+    let blob = new Blob([text], { type: mimetype });
+    let url = URL.createObjectURL(blob);
+    let link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', name);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Format the display text for a checkpoint.
+   */
+  function formatCheckpoint(checkpoint: ICheckpointModel): string {
+    return new Date(checkpoint.last_modified).toLocaleString();
+  }
 }
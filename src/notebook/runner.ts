@@ -0,0 +1,224 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IOutput, NotebookPanel
+} from 'jupyter-js-notebook';
+
+import {
+  ICellModel, ICodeCellModel, executeCodeCell, isCodeCellModel,
+  isMarkdownCellModel
+} from 'jupyter-js-notebook/lib/cells';
+
+import {
+  INotebookSession, KernelStatus
+} from 'jupyter-js-services';
+
+import {
+  Property
+} from 'phosphor-properties';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to run progress widgets.
+ */
+const PROGRESS_CLASS = 'jp-RunProgress';
+
+/**
+ * The class name added to the text of a run progress widget.
+ */
+const PROGRESS_TEXT_CLASS = 'jp-RunProgress-text';
+
+/**
+ * The class name added to the bar of a run progress widget.
+ */
+const PROGRESS_BAR_CLASS = 'jp-RunProgress-bar';
+
+
+/**
+ * Run cells of a notebook one after another.
+ *
+ * @param panel - The notebook panel.
+ *
+ * @param cells - The cells to run, in order.
+ *
+ * @returns A promise which resolves with whether every cell ran.
+ *
+ * #### Notes
+ * The run stops at the first cell with an error output, which is left
+ * active.  It also stops when the kernel is missing, restarts or dies.
+ * The progress is shown at the top of the panel.
+ *
+ * Only one run happens at a time in a notebook, a second run resolves
+ * with `false` without running anything.
+ */
+export
+function runCells(panel: NotebookPanel, cells: ICellModel[]): Promise<boolean> {
+  let model = panel.model;
+  if (model.readOnly || Private.runningProperty.get(panel)) {
+    return Promise.resolve(false);
+  }
+  Private.runningProperty.set(panel, true);
+  let progress = new Private.RunProgress();
+  panel.insertChild(1, progress);
+
+  let step = (i: number): Promise<boolean> => {
+    if (i >= cells.length) {
+      return Promise.resolve(true);
+    }
+    let index = model.cells.indexOf(cells[i]);
+    // Cells deleted during the run are skipped.
+    if (index === -1) {
+      return step(i + 1);
+    }
+    progress.setProgress(i, cells.length);
+    model.activeCellIndex = index;
+    return Private.runCell(model.session, cells[i]).then(ok => {
+      return ok ? step(i + 1) : false;
+    });
+  };
+
+  let done = (ok: boolean) => {
+    Private.runningProperty.set(panel, false);
+    progress.dispose();
+    return ok;
+  };
+  return step(0).then(done, error => {
+    done(false);
+    throw error;
+  });
+}
+
+
+/**
+ * Clear the outputs of notebook cells.
+ *
+ * @param cells - The cells to clear.  Cells without outputs are ignored.
+ */
+export
+function clearOutputs(cells: ICellModel[]): void {
+  for (let cell of cells) {
+    if (isCodeCellModel(cell)) {
+      cell.clear();
+    }
+  }
+}
+
+
+/**
+ * A namespace for cell runner private data.
+ */
+namespace Private {
+  /**
+   * An attached property with whether a notebook panel is running cells.
+   */
+  export
+  const runningProperty = new Property<NotebookPanel, boolean>({
+    name: 'running',
+    value: false
+  });
+
+  /**
+   * Run a single cell.
+   *
+   * @returns A promise which resolves with whether the cell ran without
+   *   an error.
+   */
+  export
+  function runCell(session: INotebookSession, cell: ICellModel): Promise<boolean> {
+    if (isMarkdownCellModel(cell)) {
+      cell.rendered = true;
+      return Promise.resolve(true);
+    }
+    if (!isCodeCellModel(cell)) {
+      return Promise.resolve(true);
+    }
+    if (!session || !session.kernel) {
+      return Promise.resolve(false);
+    }
+    let code = cell as ICodeCellModel;
+    code.trusted = true;
+    return new Promise<boolean>((resolve, reject) => {
+      let onStatus = (sender: INotebookSession, status: KernelStatus) => {
+        if (status === KernelStatus.Restarting || status === KernelStatus.Dead) {
+          finish(false);
+        }
+      };
+      let finish = (ok: boolean) => {
+        session.statusChanged.disconnect(onStatus);
+        resolve(ok);
+      };
+      session.statusChanged.connect(onStatus);
+      // Empty cells are not executed and return nothing.
+      Promise.resolve(executeCodeCell(code, session.kernel)).then(() => {
+        finish(!hasError(code));
+      }, error => {
+        session.statusChanged.disconnect(onStatus);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Test whether a code cell has an error output.
+   */
+  function hasError(cell: ICodeCellModel): boolean {
+    let outputs = cell.output.outputs;
+    for (let i = 0; i < outputs.length; i++) {
+      let output: IOutput = outputs.get(i);
+      if (output.output_type === 'error') {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * A widget which shows the progress of a run.
+   */
+  export
+  class RunProgress extends Widget {
+    /**
+     * Create the DOM node for a run progress widget.
+     */
+    static createNode(): HTMLElement {
+      let node = document.createElement('div');
+      let text = document.createElement('span');
+      let track = document.createElement('div');
+      let bar = document.createElement('div');
+      text.className = PROGRESS_TEXT_CLASS;
+      bar.className = PROGRESS_BAR_CLASS;
+      track.appendChild(bar);
+      node.appendChild(text);
+      node.appendChild(track);
+      return node;
+    }
+
+    /**
+     * Construct a new run progress widget.
+     */
+    constructor() {
+      super();
+      this.addClass(PROGRESS_CLASS);
+    }
+
+    /**
+     * Show the cell being run.
+     *
+     * @param done - The number of cells already run.
+     *
+     * @param total - The number of cells to run.
+     */
+    setProgress(done: number, total: number): void {
+      let text = this.node.getElementsByClassName(PROGRESS_TEXT_CLASS)[0];
+      let bar = this.node.getElementsByClassName(PROGRESS_BAR_CLASS)[0];
+      text.textContent = `Running cell ${done + 1} of ${total}`;
+      (bar as HTMLElement).style.width = `${100 * done / total}%`;
+    }
+  }
+}
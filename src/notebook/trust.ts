@@ -0,0 +1,236 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  INotebookContent, INotebookMetadata
+} from 'jupyter-js-notebook';
+
+
+/**
+ * The local storage key for the signing secret.
+ */
+const SECRET_KEY = 'jupyter.notary.secret';
+
+/**
+ * The local storage key for the trusted signatures.
+ */
+const SIGNATURES_KEY = 'jupyter.notary.signatures';
+
+/**
+ * The maximum number of trusted signatures which are kept.
+ */
+const MAX_SIGNATURES = 1000;
+
+/**
+ * The signing algorithm.
+ */
+const HMAC_ALGORITHM: Private.IHmacParams = { name: 'HMAC', hash: { name: 'SHA-256' } };
+
+
+/**
+ * A notary which remembers the notebooks the user trusts.
+ *
+ * #### Notes
+ * A notebook is signed with a secret kept in the browser, and the
+ * signatures of trusted notebooks are stored in local storage.  A
+ * notebook is trusted on open when its signature is stored, so any
+ * change made outside of the application revokes the trust.
+ *
+ * The trusted state recorded in the cell metadata of a file is never
+ * used, it is removed before signing.
+ */
+export
+class NotebookNotary {
+  /**
+   * Compute the signature of notebook content.
+   *
+   * @param content - The notebook content, as stored on disk.
+   *
+   * @returns A promise which resolves with the hex encoded signature.
+   */
+  sign(content: INotebookContent): Promise<string> {
+    let data = Private.encode(Private.canonicalize(stripTrust(content)));
+    return Private.getKey().then(key => {
+      return window.crypto.subtle.sign(HMAC_ALGORITHM, key, data);
+    }).then((signature: ArrayBuffer) => Private.toHex(signature));
+  }
+
+  /**
+   * Test whether notebook content is trusted.
+   *
+   * @param content - The notebook content, as stored on disk.
+   */
+  check(content: INotebookContent): Promise<boolean> {
+    return this.sign(content).then(signature => {
+      return Private.loadSignatures().indexOf(signature) !== -1;
+    });
+  }
+
+  /**
+   * Trust notebook content.
+   *
+   * @param content - The notebook content, as stored on disk.
+   *
+   * #### Notes
+   * The oldest signatures are forgotten when there are too many.
+   */
+  trust(content: INotebookContent): Promise<void> {
+    return this.sign(content).then(signature => {
+      let signatures = Private.loadSignatures().filter(s => s !== signature);
+      signatures.push(signature);
+      Private.saveSignatures(signatures.slice(-MAX_SIGNATURES));
+    });
+  }
+}
+
+
+/**
+ * Remove the trusted state from the cells of notebook content.
+ *
+ * @param content - The notebook content.
+ *
+ * @returns A copy of the content without the trusted state.
+ */
+export
+function stripTrust(content: INotebookContent): INotebookContent {
+  let copy: INotebookContent = JSON.parse(JSON.stringify(content));
+  for (let cell of (copy && copy.cells) || []) {
+    if (cell.metadata) delete cell.metadata.trusted;
+  }
+  let metadata = copy ? copy.metadata as Private.ISignedMetadata : null;
+  if (metadata) delete metadata.signature;
+  return copy;
+}
+
+
+/**
+ * A namespace for notary private data.
+ */
+namespace Private {
+  /**
+   * The parameters of an HMAC key.
+   */
+  export
+  interface IHmacParams extends Algorithm {
+    /**
+     * The hash function of the key.
+     */
+    hash: Algorithm;
+  }
+
+  /**
+   * The notebook metadata with a signature.
+   */
+  export
+  interface ISignedMetadata extends INotebookMetadata {
+    /**
+     * The signature written by the classic notebook server.
+     */
+    signature?: string;
+  }
+
+  /**
+   * The signing key, created once per page.
+   */
+  let key: Promise<CryptoKey> = null;
+
+  /**
+   * Get the signing key.
+   *
+   * #### Notes
+   * A random secret is created and stored the first time it is needed.
+   */
+  export
+  function getKey(): Promise<CryptoKey> {
+    if (key) {
+      return key;
+    }
+    let secret = window.localStorage.getItem(SECRET_KEY);
+    if (!secret) {
+      let bytes = new Uint8Array(32);
+      window.crypto.getRandomValues(bytes);
+      secret = toHex(bytes.buffer);
+      window.localStorage.setItem(SECRET_KEY, secret);
+    }
+    let data = encode(secret);
+    key = Promise.resolve<CryptoKey>(window.crypto.subtle.importKey(
+      'raw', data, HMAC_ALGORITHM, false, ['sign']
+    ));
+    return key;
+  }
+
+  /**
+   * Serialize a value as JSON with sorted object keys.
+   */
+  export
+  function canonicalize(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(canonicalize).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      let items = Object.keys(value).sort().map(k => {
+        return `${JSON.stringify(k)}:${canonicalize(value[k])}`;
+      });
+      return `{${items.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Encode text as UTF-8 bytes.
+   */
+  export
+  function encode(text: string): Uint8Array {
+    let escaped = encodeURIComponent(text);
+    let bytes: number[] = [];
+    for (let i = 0; i < escaped.length; i++) {
+      if (escaped[i] === '%') {
+        bytes.push(parseInt(escaped.substr(i + 1, 2), 16));
+        i += 2;
+      } else {
+        bytes.push(escaped.charCodeAt(i));
+      }
+    }
+    return new Uint8Array(bytes);
+  }
+
+  /**
+   * Encode bytes as hex.
+   */
+  export
+  function toHex(buffer: ArrayBuffer): string {
+    let bytes = new Uint8Array(buffer);
+    let hex = '';
+    for (let i = 0; i < bytes.length; i++) {
+      hex += (bytes[i] + 0x100).toString(16).slice(1);
+    }
+    return hex;
+  }
+
+  /**
+   * Load the trusted signatures from local storage.
+   */
+  export
+  function loadSignatures(): string[] {
+    try {
+      let value = JSON.parse(window.localStorage.getItem(SIGNATURES_KEY));
+      return Array.isArray(value) ? value : [];
+    } catch (error) {
+      // Invalid signatures are forgotten.
+      return [];
+    }
+  }
+
+  /**
+   * Save the trusted signatures to local storage.
+   *
+   * #### Notes
+   * This throws when local storage is unavailable or full, so a failed
+   * [[NotebookNotary.trust]] is reported to the caller.
+   */
+  export
+  function saveSignatures(signatures: string[]): void {
+    window.localStorage.setItem(SIGNATURES_KEY, JSON.stringify(signatures));
+  }
+}
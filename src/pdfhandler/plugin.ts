@@ -0,0 +1,90 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IContentsModel, IContentsOpts
+} from 'jupyter-js-services';
+
+import {
+  AbstractFileHandler
+} from 'jupyter-js-ui/lib/filehandler';
+
+import {
+  Application
+} from 'phosphide/lib/core/application';
+
+import {
+  DocumentRegistry
+} from '../filehandler/registry';
+
+import {
+  JupyterServices
+} from '../services/plugin';
+
+import {
+  PDFWidget
+} from './widget';
+
+
+/**
+ * The PDF file handler extension.
+ */
+export
+const pdfHandlerExtension = {
+  id: 'jupyter.extensions.pdfHandler',
+  requires: [DocumentRegistry, JupyterServices],
+  activate: (app: Application, registry: DocumentRegistry, services: JupyterServices) => {
+    let handler = new PDFHandler(services.contentsManager);
+    registry.addHandler(handler, { name: 'PDF' });
+    return Promise.resolve(void 0);
+  }
+};
+
+
+/**
+ * A file handler for PDF documents.
+ *
+ * #### Notes
+ * The viewer is read-only, the document is saved as it was loaded.
+ */
+export
+class PDFHandler extends AbstractFileHandler<PDFWidget> {
+  /**
+   * Get the list of file extensions explicitly supported by the handler.
+   */
+  get fileExtensions(): string[] {
+    return ['.pdf'];
+  }
+
+  /**
+   * Get the options used to fetch the model contents from disk.
+   */
+  protected getFetchOptions(path: string): IContentsOpts {
+    return { type: 'file', format: 'base64' };
+  }
+
+  /**
+   * Get the options used to save the widget content.
+   */
+  protected getSaveOptions(widget: PDFWidget, path: string): Promise<IContentsOpts> {
+    return Promise.resolve({ type: 'file', format: 'base64', content: widget.content });
+  }
+
+  /**
+   * Create the widget from a path.
+   */
+  protected createWidget(path: string): PDFWidget {
+    let widget = new PDFWidget();
+    widget.title.text = path.split('/').pop();
+    return widget;
+  }
+
+  /**
+   * Populate a widget from `IContentsModel`.
+   */
+  protected populateWidget(widget: PDFWidget, model: IContentsModel): Promise<IContentsModel> {
+    widget.content = model.content;
+    return Promise.resolve(model);
+  }
+}
@@ -0,0 +1,102 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The class name added to PDF widgets.
+ */
+const PDF_CLASS = 'jp-PDFWidget';
+
+
+/**
+ * A widget which embeds the browser PDF viewer.
+ *
+ * #### Notes
+ * The document is shown from an object url, which is revoked when the
+ * content changes or the widget is disposed.
+ */
+export
+class PDFWidget extends Widget {
+  /**
+   * Create a new node for the widget.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let frame = document.createElement('iframe');
+    node.appendChild(frame);
+    return node;
+  }
+
+  /**
+   * Construct a new PDF widget.
+   */
+  constructor() {
+    super();
+    this.addClass(PDF_CLASS);
+    this.node.tabIndex = 0;
+  }
+
+  /**
+   * Get the base64 encoded content of the document.
+   */
+  get content(): string {
+    return this._content;
+  }
+
+  /**
+   * Set the base64 encoded content of the document.
+   */
+  set content(value: string) {
+    this._content = value;
+    this._revoke();
+    let blob = Private.decode(value, 'application/pdf');
+    this._url = URL.createObjectURL(blob);
+    let frame = this.node.firstChild as HTMLIFrameElement;
+    frame.src = this._url;
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this._revoke();
+    super.dispose();
+  }
+
+  /**
+   * Revoke the current object url.
+   */
+  private _revoke(): void {
+    if (this._url) {
+      URL.revokeObjectURL(this._url);
+      this._url = '';
+    }
+  }
+
+  private _content = '';
+  private _url = '';
+}
+
+
+/**
+ * A namespace for PDF widget private data.
+ */
+namespace Private {
+  /**
+   * Decode base64 content into a blob.
+   */
+  export
+  function decode(content: string, mimetype: string): Blob {
+    let data = atob(content.replace(/\s/g, ''));
+    let bytes = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      bytes[i] = data.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimetype });
+  }
+}
@@ -3,7 +3,7 @@
 'use strict';
 
 import {
-  NotebookWidget, NotebookModel, serialize, deserialize
+  deserialize
 } from 'jupyter-js-notebook';
 
 import {
@@ -11,18 +11,13 @@ import {
 } from 'jupyter-js-services';
 
 import {
-  AbstractFileHandler, FileHandlerRegistry
+  AbstractFileHandler
 } from 'jupyter-js-ui/lib/filehandler';
 
 import {
   RenderMime
 } from 'jupyter-js-ui/lib/rendermime';
 
-import {
-  HTMLRenderer, LatexRenderer, ImageRenderer, TextRenderer,
-  ConsoleTextRenderer, JavascriptRenderer, SVGRenderer
-} from 'jupyter-js-ui/lib/renderers';
-
 import {
   Application
 } from 'phosphide/lib/core/application';
@@ -31,40 +26,125 @@ import {
   Widget
 } from 'phosphor-widget';
 
+import {
+  showError
+} from '../dialog';
+
+import {
+  DocumentTracker
+} from '../documenttracker/plugin';
+
+import {
+  DocumentRegistry
+} from '../filehandler/registry';
+
 import {
   JupyterServices
 } from '../services/plugin';
 
+import {
+  NotebookViewer
+} from './widget';
+
+
+/**
+ * The name of the notebook viewer file handler.
+ */
+const VIEWER_NAME = 'Viewer';
+
+/**
+ * The name of the notebook file handler the copies are opened with.
+ */
+const NOTEBOOK_NAME = 'Notebook';
+
 
 /**
- * The notebook file handler provider.
+ * The read-only notebook viewer extension.
  */
 export
-const notebookHandlerExtension = {
-  id: 'jupyter.extensions.notebookHandler',
-  requires: [FileHandlerRegistry, JupyterServices, RenderMime],
-  activate: activateNotebookHandler
+const notebookViewerExtension = {
+  id: 'jupyter.extensions.notebookViewer',
+  requires: [DocumentRegistry, JupyterServices, RenderMime, DocumentTracker],
+  activate: activateNotebookViewer
 };
 
 
 /**
- * Activate the notebook handler extension.
+ * Activate the notebook viewer extension.
+ *
+ * #### Notes
+ * The viewer is an explicit handler, it is only used when it is chosen
+ * for a file.
  */
-function activateNotebookHandler(app: Application, registry: FileHandlerRegistry, services: JupyterServices, rendermime: RenderMime<Widget>): Promise<void> {
-  let handler = new NotebookFileHandler(
-    services.contentsManager,
-    rendermime
-  );
-  registry.addHandler(handler);
+function activateNotebookViewer(app: Application, registry: DocumentRegistry, services: JupyterServices, rendermime: RenderMime<Widget>, tracker: DocumentTracker): Promise<void> {
+  let contents = services.contentsManager;
+  let handler = new NotebookViewerHandler(contents, rendermime);
+  registry.addHandler(handler, { name: VIEWER_NAME, explicit: true });
+
+  handler.opened.connect((h, viewer) => {
+    viewer.copyRequested.connect(onCopyRequested);
+  });
+
+  app.commands.add([
+    {
+      id: 'notebook-viewer:open',
+      handler: () => {
+        let path = tracker.activePath;
+        if (path && /\.ipynb$/.test(path)) {
+          registry.openWith(path, VIEWER_NAME);
+        }
+      }
+    },
+    {
+      id: 'notebook-viewer:make-editable-copy',
+      handler: () => {
+        let viewer = tracker.activeWidget;
+        if (viewer instanceof NotebookViewer) {
+          onCopyRequested(viewer);
+        }
+      }
+    }
+  ]);
+  app.palette.add([
+    {
+      command: 'notebook-viewer:open',
+      category: 'Notebook Operations',
+      text: 'Open in Viewer',
+      caption: 'Open the current notebook in the read-only viewer'
+    },
+    {
+      command: 'notebook-viewer:make-editable-copy',
+      category: 'Notebook Operations',
+      text: 'Make Editable Copy',
+      caption: 'Copy the viewed notebook and open the copy for editing'
+    }
+  ]);
+
   return Promise.resolve(void 0);
+
+  function onCopyRequested(viewer: NotebookViewer): void {
+    let path = handler.findPath(viewer);
+    if (!path) {
+      return;
+    }
+    let dirname = path.slice(0, path.lastIndexOf('/') + 1);
+    contents.copy(path, dirname).then(model => {
+      registry.openWith(model.path, NOTEBOOK_NAME);
+    }).catch(error => {
+      showError('Copy failed', error, viewer.node);
+    });
+  }
 }
 
 
 /**
- * An implementation of a file handler.
+ * A file handler which opens notebooks in a read-only viewer.
  */
-class NotebookFileHandler extends AbstractFileHandler<NotebookWidget> {
-
+export
+class NotebookViewerHandler extends AbstractFileHandler<NotebookViewer> {
+  /**
+   * Construct a new notebook viewer handler.
+   */
   constructor(contents: IContentsManager, rendermime: RenderMime<Widget>) {
     super(contents);
     this._rendermime = rendermime;
@@ -86,33 +166,46 @@ class NotebookFileHandler extends AbstractFileHandler<NotebookWidget> {
 
   /**
    * Get the options used to save the widget content.
+   *
+   * #### Notes
+   * A viewed notebook is never saved, the promise always rejects.
    */
-  protected getSaveOptions(widget: NotebookWidget, path: string): Promise<IContentsOpts> {
-      let content = serialize(widget.model);
-      return Promise.resolve({ type: 'notebook', content });
+  protected getSaveOptions(widget: NotebookViewer, path: string): Promise<IContentsOpts> {
+    return Promise.reject<IContentsOpts>(new Error(
+      'The notebook viewer is read-only, make an editable copy to save changes'
+    ));
   }
 
   /**
    * Create the widget from a path.
    */
-  protected createWidget(path: string): NotebookWidget {
-    let model = new NotebookModel();
-    model.readOnly = true;
-    return new NotebookWidget(model, this._rendermime);
+  protected createWidget(path: string): NotebookViewer {
+    return new NotebookViewer(this._rendermime);
   }
 
   /**
    * Populate the notebook widget with the contents of the notebook.
+   *
+   * #### Notes
+   * The trusted state stored in the file is ignored, the cells are
+   * always untrusted.  Their HTML outputs are sanitized and their
+   * Javascript outputs are not run.
    */
-  protected populateWidget(widget: NotebookWidget, model: IContentsModel): Promise<IContentsModel> {
-    deserialize(model.content, widget.model);
-    if (widget.model.cells.length === 0) {
-      let cell = widget.model.createCodeCell();
-      widget.model.cells.add(cell);
+  protected populateWidget(widget: NotebookViewer, model: IContentsModel): Promise<IContentsModel> {
+    for (let cell of model.content.cells || []) {
+      cell.metadata = cell.metadata || {};
+      cell.metadata.trusted = false;
     }
-
+    deserialize(model.content, widget.model);
     return Promise.resolve(model);
   }
 
+  /**
+   * Get the title text for a path.
+   */
+  protected getTitleText(path: string): string {
+    return `${super.getTitleText(path)} (view)`;
+  }
+
   private _rendermime: RenderMime<Widget> = null;
 }
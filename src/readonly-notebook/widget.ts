@@ -0,0 +1,282 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  INotebookModel, NotebookModel, NotebookWidget
+} from 'jupyter-js-notebook';
+
+import {
+  isMarkdownCellModel
+} from 'jupyter-js-notebook/lib/cells';
+
+import {
+  RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  Panel, PanelLayout
+} from 'phosphor-panel';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  findHeadings
+} from '../toc/headings';
+
+
+/**
+ * The class name added to notebook viewer widgets.
+ */
+const VIEWER_CLASS = 'jp-NotebookViewer';
+
+/**
+ * The class name added to the header of a notebook viewer.
+ */
+const HEADER_CLASS = 'jp-NotebookViewer-header';
+
+/**
+ * The class name added to the make editable copy button.
+ */
+const COPY_CLASS = 'jp-NotebookViewer-copy';
+
+/**
+ * The class name added to the body of a notebook viewer.
+ */
+const BODY_CLASS = 'jp-NotebookViewer-body';
+
+/**
+ * The class name added to notebook outline widgets.
+ */
+const OUTLINE_CLASS = 'jp-NotebookOutline';
+
+/**
+ * The class name added to an outline item.
+ */
+const OUTLINE_ITEM_CLASS = 'jp-NotebookOutline-item';
+
+
+/**
+ * A read-only view of a notebook with an outline of its headings.
+ *
+ * #### Notes
+ * The viewer has no kernel session, the outputs stored in the notebook
+ * are rendered as they are.
+ */
+export
+class NotebookViewer extends Panel {
+  /**
+   * Construct a new notebook viewer.
+   *
+   * @param rendermime - The rendermime used to render the outputs.
+   */
+  constructor(rendermime: RenderMime<Widget>) {
+    super();
+    this.addClass(VIEWER_CLASS);
+    let model = new NotebookModel();
+    model.readOnly = true;
+    this._notebook = new NotebookWidget(model, rendermime);
+    this._outline = new NotebookOutline(this._notebook);
+
+    let header = new Widget();
+    header.addClass(HEADER_CLASS);
+    let label = document.createElement('span');
+    label.textContent = 'Read-only view';
+    let button = document.createElement('button');
+    button.className = COPY_CLASS;
+    button.textContent = 'Make Editable Copy';
+    button.addEventListener('click', () => {
+      this.copyRequested.emit(void 0);
+    });
+    header.node.appendChild(label);
+    header.node.appendChild(button);
+
+    let body = new Panel();
+    body.addClass(BODY_CLASS);
+    body.addChild(this._outline);
+    body.addChild(this._notebook);
+
+    this.addChild(header);
+    this.addChild(body);
+  }
+
+  /**
+   * A signal emitted when the user requests an editable copy.
+   */
+  get copyRequested(): ISignal<NotebookViewer, void> {
+    return Private.copyRequestedSignal.bind(this);
+  }
+
+  /**
+   * Get the notebook model of the viewer.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get model(): INotebookModel {
+    return this._notebook.model;
+  }
+
+  /**
+   * Get the notebook widget of the viewer.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get notebook(): NotebookWidget {
+    return this._notebook;
+  }
+
+  /**
+   * Dispose of the resources held by the viewer.
+   */
+  dispose(): void {
+    this._notebook = null;
+    this._outline = null;
+    super.dispose();
+  }
+
+  private _notebook: NotebookWidget = null;
+  private _outline: NotebookOutline = null;
+}
+
+
+/**
+ * A widget which lists the Markdown headings of a notebook.
+ *
+ * #### Notes
+ * Clicking a heading scrolls its cell into view.
+ */
+export
+class NotebookOutline extends Widget {
+  /**
+   * Create a new node for the widget.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    node.appendChild(document.createElement('ul'));
+    return node;
+  }
+
+  /**
+   * Construct a new notebook outline.
+   *
+   * @param notebook - The notebook widget to outline.
+   */
+  constructor(notebook: NotebookWidget) {
+    super();
+    this.addClass(OUTLINE_CLASS);
+    this._notebook = notebook;
+    notebook.model.cells.changed.connect(this._onCellsChanged, this);
+    this.update();
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this._notebook = null;
+    super.dispose();
+  }
+
+  /**
+   * Handle the DOM events for the widget.
+   *
+   * @param event - The DOM event sent to the widget.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the widget's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'click') {
+      this._evtClick(event as MouseEvent);
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.node.addEventListener('click', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    super.onBeforeDetach(msg);
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let list = this.node.firstChild as HTMLElement;
+    list.textContent = '';
+    let cells = this._notebook.model.cells;
+    for (let i = 0; i < cells.length; i++) {
+      let cell = cells.get(i);
+      if (!isMarkdownCellModel(cell)) {
+        continue;
+      }
+      for (let heading of findHeadings(cell.input.textEditor.text)) {
+        let item = document.createElement('li');
+        item.className = `${OUTLINE_ITEM_CLASS} ${OUTLINE_ITEM_CLASS}-h${heading.level}`;
+        item.textContent = heading.text;
+        item.setAttribute('data-index', String(i));
+        list.appendChild(item);
+      }
+    }
+    this.toggleClass('jp-mod-empty', list.childNodes.length === 0);
+  }
+
+  /**
+   * Handle a change to the notebook cells.
+   */
+  private _onCellsChanged(): void {
+    this.update();
+  }
+
+  /**
+   * Handle the `'click'` event for the widget.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let target = event.target as HTMLElement;
+    if (!target.classList.contains(OUTLINE_ITEM_CLASS)) {
+      return;
+    }
+    let index = Number(target.getAttribute('data-index'));
+    let layout = this._notebook.layout as PanelLayout;
+    if (index < layout.childCount()) {
+      layout.childAt(index).node.scrollIntoView();
+    }
+  }
+
+  private _notebook: NotebookWidget = null;
+}
+
+
+/**
+ * A namespace for notebook viewer private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when the user requests an editable copy.
+   */
+  export
+  const copyRequestedSignal = new Signal<NotebookViewer, void>();
+}
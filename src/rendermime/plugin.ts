@@ -3,7 +3,11 @@
 'use strict';
 
 import {
-  RenderMime
+  showDialog
+} from 'jupyter-js-ui/lib/dialog';
+
+import {
+  IRenderer, RenderMime
 } from 'jupyter-js-ui/lib/rendermime';
 
 import {
@@ -11,21 +15,33 @@ import {
   ConsoleTextRenderer, JavascriptRenderer, SVGRenderer, MarkdownRenderer
 } from 'jupyter-js-ui/lib/renderers';
 
+import {
+  Application
+} from 'phosphide/lib/core/application';
+
 import {
   Widget
 } from 'phosphor-widget';
 
+import {
+  RenderMimeRegistry
+} from './registry';
+
 
 /**
- * The default rendermime provider.
+ * The rendermime registry provider.
+ *
+ * #### Notes
+ * The built-in renderers are ranked by their position, ten apart, so
+ * other renderers can be ranked between them.
  */
 export
-const renderMimeProvider = {
-  id: 'jupyter.services.rendermime',
-  provides: RenderMime,
+const renderMimeRegistryProvider = {
+  id: 'jupyter.services.rendermimeRegistry',
+  provides: RenderMimeRegistry,
   resolve: () => {
-    let rendermime = new RenderMime<Widget>();
-    const transformers = [
+    let registry = new RenderMimeRegistry();
+    const transformers: IRenderer<Widget>[] = [
       new JavascriptRenderer(),
       new MarkdownRenderer(),
       new HTMLRenderer(),
@@ -36,12 +52,70 @@ const renderMimeProvider = {
       new TextRenderer()
     ];
 
-    for (let t of transformers) {
-      for (let m of t.mimetypes) {
-        rendermime.order.push(m);
-        rendermime.renderers[m] = t;
+    transformers.forEach((t, i) => {
+      registry.addRenderer(t, { rank: i * 10 });
+    });
+    return registry;
+  }
+};
+
+
+/**
+ * The default rendermime provider.
+ *
+ * #### Notes
+ * This is the rendermime registry, so renderers registered with it are
+ * used everywhere.
+ */
+export
+const renderMimeProvider = {
+  id: 'jupyter.services.rendermime',
+  provides: RenderMime,
+  requires: [RenderMimeRegistry],
+  resolve: (registry: RenderMimeRegistry) => registry
+};
+
+
+/**
+ * The rendermime settings extension.
+ */
+export
+const renderMimeExtension = {
+  id: 'jupyter.extensions.rendermime',
+  requires: [RenderMimeRegistry],
+  activate: (app: Application, registry: RenderMimeRegistry) => {
+    app.commands.add([
+      {
+        id: 'rendermime:toggle-untrusted-scripts',
+        handler: () => {
+          let settings = registry.settings;
+          if (settings.runUntrustedScripts) {
+            settings.runUntrustedScripts = false;
+            registry.settings = settings;
+            return;
+          }
+          showDialog({
+            title: 'Allow untrusted Javascript?',
+            body: 'Javascript outputs of untrusted notebooks will run, ' +
+                  'with the same access to the server as you.',
+            okText: 'ALLOW'
+          }).then(result => {
+            if (result && result.text === 'ALLOW') {
+              settings.runUntrustedScripts = true;
+              registry.settings = settings;
+            }
+          });
+        }
+      }
+    ]);
+    app.palette.add([
+      {
+        command: 'rendermime:toggle-untrusted-scripts',
+        category: 'Output Rendering',
+        text: 'Toggle Untrusted Javascript',
+        caption: 'Allow or block Javascript of untrusted outputs'
       }
-    }
-    return rendermime;
+    ]);
+    return Promise.resolve(void 0);
   }
 };
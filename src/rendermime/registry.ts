@@ -0,0 +1,230 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IRenderer, MimeMap, RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+
+/**
+ * The local storage key for the trust settings.
+ */
+const SETTINGS_KEY = 'jupyter.rendermime';
+
+/**
+ * The rank given to renderers registered without one.
+ */
+const DEFAULT_RANK = 100;
+
+
+/**
+ * The options used to register a renderer.
+ */
+export
+interface IRendererOptions {
+  /**
+   * The rank of the renderer mimetypes.
+   *
+   * #### Notes
+   * Mimetypes with a lower rank are preferred when a bundle has several
+   * mimetypes.  The default is `100`, after the built-in renderers.  The
+   * rank of an overridden mimetype is kept if none is given.
+   */
+  rank?: number;
+}
+
+
+/**
+ * The settings for rendering untrusted content.
+ */
+export
+interface ITrustSettings {
+  /**
+   * Whether untrusted notebooks are rendered as trusted.
+   *
+   * #### Notes
+   * This runs Javascript from any notebook.  The default is `false`.
+   */
+  runUntrustedScripts: boolean;
+}
+
+
+/**
+ * A rendermime which renderers can be registered with at runtime.
+ *
+ * #### Notes
+ * The mimetype order follows the renderer ranks.  The trust settings are
+ * stored in local storage.
+ */
+export
+class RenderMimeRegistry extends RenderMime<Widget> {
+  /**
+   * Construct a new rendermime registry.
+   */
+  constructor() {
+    super();
+    this._settings = Private.loadSettings();
+  }
+
+  /**
+   * A signal emitted when the trust settings change.
+   */
+  get settingsChanged(): ISignal<RenderMimeRegistry, ITrustSettings> {
+    return Private.settingsChangedSignal.bind(this);
+  }
+
+  /**
+   * Get the trust settings.
+   *
+   * #### Notes
+   * The returned object is a copy.
+   */
+  get settings(): ITrustSettings {
+    return { runUntrustedScripts: this._settings.runUntrustedScripts };
+  }
+
+  /**
+   * Set the trust settings.
+   */
+  set settings(value: ITrustSettings) {
+    this._settings = { runUntrustedScripts: !!value.runUntrustedScripts };
+    Private.saveSettings(this._settings);
+    this.settingsChanged.emit(this.settings);
+  }
+
+  /**
+   * Register a renderer for its mimetypes.
+   *
+   * @param renderer - The renderer to register.
+   *
+   * @param options - The options for the renderer.
+   *
+   * #### Notes
+   * A renderer registered for a mimetype which already has one replaces
+   * it, so built-in renderers can be overridden.
+   */
+  addRenderer(renderer: IRenderer<Widget>, options: IRendererOptions = {}): void {
+    for (let mimetype of renderer.mimetypes) {
+      let known = mimetype in this._ranks;
+      let rank = options.rank;
+      if (rank === void 0) {
+        rank = known ? this._ranks[mimetype] : DEFAULT_RANK;
+      }
+      this.renderers[mimetype] = renderer;
+      this._ranks[mimetype] = rank;
+      if (!known) {
+        this.order.push(mimetype);
+      }
+    }
+    this._sort();
+  }
+
+  /**
+   * Remove the renderer of a mimetype.
+   *
+   * @param mimetype - The mimetype of interest.
+   */
+  removeRenderer(mimetype: string): void {
+    let index = this.order.indexOf(mimetype);
+    if (index !== -1) {
+      this.order.splice(index, 1);
+    }
+    delete this.renderers[mimetype];
+    delete this._ranks[mimetype];
+  }
+
+  /**
+   * Get the rank of a mimetype.
+   *
+   * @returns The rank, or `undefined` if the mimetype has no renderer.
+   */
+  getRank(mimetype: string): number {
+    return this._ranks[mimetype];
+  }
+
+  /**
+   * Set the rank of a mimetype.
+   *
+   * @param mimetype - The mimetype of interest.
+   *
+   * @param rank - The new rank.  A lower rank is preferred.
+   */
+  setRank(mimetype: string, rank: number): void {
+    if (!(mimetype in this._ranks)) {
+      throw new Error(`No renderer for ${mimetype}`);
+    }
+    this._ranks[mimetype] = rank;
+    this._sort();
+  }
+
+  /**
+   * Sort the mimetype order by rank.
+   *
+   * #### Notes
+   * The sort is stable, mimetypes of equal rank keep their order.
+   */
+  private _sort(): void {
+    let order = this.order;
+    let indexed = order.map((mimetype, index) => ({ mimetype, index }));
+    indexed.sort((a, b) => {
+      let delta = this._ranks[a.mimetype] - this._ranks[b.mimetype];
+      return delta || a.index - b.index;
+    });
+    for (let i = 0; i < indexed.length; i++) {
+      order[i] = indexed[i].mimetype;
+    }
+  }
+
+  private _ranks: MimeMap<number> = Object.create(null);
+  private _settings: ITrustSettings = null;
+}
+
+
+/**
+ * A namespace for rendermime registry private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when the trust settings change.
+   */
+  export
+  const settingsChangedSignal = new Signal<RenderMimeRegistry, ITrustSettings>();
+
+  /**
+   * Load the trust settings from local storage.
+   */
+  export
+  function loadSettings(): ITrustSettings {
+    let settings: ITrustSettings = { runUntrustedScripts: false };
+    try {
+      let value = JSON.parse(window.localStorage.getItem(SETTINGS_KEY)) || {};
+      if (typeof value.runUntrustedScripts === 'boolean') {
+        settings.runUntrustedScripts = value.runUntrustedScripts;
+      }
+    } catch (error) {
+      // Invalid settings are replaced by the defaults.
+    }
+    return settings;
+  }
+
+  /**
+   * Save the trust settings to local storage.
+   */
+  export
+  function saveSettings(settings: ITrustSettings): void {
+    try {
+      window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      // The settings only last for the session without local storage.
+    }
+  }
+}
@@ -0,0 +1,112 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  FileHandlerRegistry
+} from 'jupyter-js-ui/lib/filehandler';
+
+import {
+  Application
+} from 'phosphide/lib/core/application';
+
+import {
+  JupyterServices
+} from '../services/plugin';
+
+import {
+  TerminalTracker
+} from '../terminal/plugin';
+
+import {
+  RunningSessionsWidget
+} from './widget';
+
+
+/**
+ * The id of the running sessions widget.
+ */
+const RUNNING_ID = 'running-sessions';
+
+
+/**
+ * The running sessions extension.
+ */
+export
+const runningSessionsExtension = {
+  id: 'jupyter.extensions.runningSessions',
+  requires: [JupyterServices, FileHandlerRegistry, TerminalTracker],
+  activate: activateRunningSessions
+};
+
+
+/**
+ * Activate the running sessions panel.
+ */
+function activateRunningSessions(app: Application, services: JupyterServices, registry: FileHandlerRegistry, terminals: TerminalTracker): Promise<void> {
+  let widget = new RunningSessionsWidget(services);
+  widget.id = RUNNING_ID;
+  widget.title.text = 'Running';
+
+  // Open the notebook of a session when requested.
+  widget.sessionOpenRequested.connect((sender, args) => {
+    registry.open(args.notebook.path);
+  });
+
+  // Open or jump to the terminal of a terminal session when requested.
+  widget.terminalOpenRequested.connect((sender, args) => {
+    terminals.open(args.name);
+  });
+
+  app.commands.add([
+    {
+      id: 'running:activate',
+      handler: showRunning
+    },
+    {
+      id: 'running:hide',
+      handler: hideRunning
+    },
+    {
+      id: 'running:toggle',
+      handler: toggleRunning
+    },
+    {
+      id: 'running:refresh',
+      handler: () => { widget.refresh(); }
+    }
+  ]);
+  app.palette.add([
+    {
+      command: 'running:toggle',
+      category: 'Running',
+      text: 'Toggle Running Sessions',
+      caption: 'Show or hide the running sessions panel'
+    },
+    {
+      command: 'running:refresh',
+      category: 'Running',
+      text: 'Refresh Running Sessions',
+      caption: 'Refresh the list of running sessions'
+    }
+  ]);
+
+  app.shell.addToLeftArea(widget, { rank: 50 });
+  return Promise.resolve(void 0);
+
+  function showRunning(): void {
+    app.shell.activateLeft(widget.id);
+  }
+
+  function hideRunning(): void {
+    if (!widget.isHidden) app.shell.collapseLeft();
+  }
+
+  function toggleRunning(): void {
+    if (widget.isHidden) {
+      showRunning();
+    } else {
+      hideRunning();
+    }
+  }
+}
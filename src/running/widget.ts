@@ -0,0 +1,541 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IKernelId, ISessionId
+} from 'jupyter-js-services';
+
+import {
+  okButton, showDialog
+} from 'jupyter-js-ui/lib/dialog';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  showError
+} from '../dialog';
+
+import {
+  JupyterServices
+} from '../services/plugin';
+
+import {
+  ITerminalId
+} from '../services/terminals';
+
+
+/**
+ * The class name added to a running sessions widget.
+ */
+const RUNNING_CLASS = 'jp-RunningSessions';
+
+/**
+ * The class name added to the running sessions header node.
+ */
+const HEADER_CLASS = 'jp-RunningSessions-header';
+
+/**
+ * The class name added to the refresh button.
+ */
+const REFRESH_CLASS = 'jp-RunningSessions-refresh';
+
+/**
+ * The class name added to the shutdown all button.
+ */
+const SHUTDOWN_ALL_CLASS = 'jp-RunningSessions-shutdownAll';
+
+/**
+ * The class name added to a section of the running sessions widget.
+ */
+const SECTION_CLASS = 'jp-RunningSessions-section';
+
+/**
+ * The class name added to a section header.
+ */
+const SECTION_HEADER_CLASS = 'jp-RunningSessions-sectionHeader';
+
+/**
+ * The class name added to a section list.
+ */
+const LIST_CLASS = 'jp-RunningSessions-list';
+
+/**
+ * The class name added to a list item.
+ */
+const ITEM_CLASS = 'jp-RunningSessions-item';
+
+/**
+ * The class name added to an item label.
+ */
+const ITEM_LABEL_CLASS = 'jp-RunningSessions-itemLabel';
+
+/**
+ * The class name added to an item shutdown button.
+ */
+const ITEM_SHUTDOWN_CLASS = 'jp-RunningSessions-itemShutdown';
+
+/**
+ * The class name added to an empty section list.
+ */
+const EMPTY_CLASS = 'jp-mod-empty';
+
+/**
+ * The class name added to a section list which could not be fetched.
+ */
+const ERROR_CLASS = 'jp-mod-error';
+
+/**
+ * The duration between automatic refreshes in milliseconds.
+ */
+const REFRESH_DURATION = 10000;
+
+
+/**
+ * The kinds of running items.
+ */
+type ItemKind = 'session' | 'kernel' | 'terminal';
+
+
+/**
+ * A running item of any kind.
+ */
+type RunningItem = ISessionId | IKernelId | ITerminalId;
+
+
+/**
+ * A widget which lists and manages the running sessions, kernels and
+ * terminals of the notebook server.
+ */
+export
+class RunningSessionsWidget extends Widget {
+  /**
+   * Create a new node for the widget.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let header = document.createElement('div');
+    header.className = HEADER_CLASS;
+    let refresh = document.createElement('button');
+    refresh.className = REFRESH_CLASS;
+    refresh.textContent = 'Refresh';
+    let shutdownAll = document.createElement('button');
+    shutdownAll.className = SHUTDOWN_ALL_CLASS;
+    shutdownAll.textContent = 'Shut Down All';
+    header.appendChild(refresh);
+    header.appendChild(shutdownAll);
+    node.appendChild(header);
+    let titles = ['Notebook Sessions', 'Kernels', 'Terminals'];
+    for (let kind of ['session', 'kernel', 'terminal']) {
+      let section = document.createElement('div');
+      section.className = `${SECTION_CLASS} ${SECTION_CLASS}-${kind}`;
+      let title = document.createElement('div');
+      title.className = SECTION_HEADER_CLASS;
+      title.textContent = titles.shift();
+      let list = document.createElement('ul');
+      list.className = LIST_CLASS;
+      section.appendChild(title);
+      section.appendChild(list);
+      node.appendChild(section);
+    }
+    return node;
+  }
+
+  /**
+   * Construct a new running sessions widget.
+   *
+   * @param services - The services provider used to query the server.
+   */
+  constructor(services: JupyterServices) {
+    super();
+    this.addClass(RUNNING_CLASS);
+    this._services = services;
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this._stopRefresh();
+    this._services = null;
+    super.dispose();
+  }
+
+  /**
+   * A signal emitted when the user requests to open a notebook session.
+   */
+  get sessionOpenRequested(): ISignal<RunningSessionsWidget, ISessionId> {
+    return Private.sessionOpenRequestedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the user requests to open a terminal.
+   */
+  get terminalOpenRequested(): ISignal<RunningSessionsWidget, ITerminalId> {
+    return Private.terminalOpenRequestedSignal.bind(this);
+  }
+
+  /**
+   * Refresh the lists of running items from the server.
+   *
+   * @returns A promise that resolves when the lists are rendered.
+   *
+   * #### Notes
+   * Each list is fetched on its own.  A list which cannot be fetched,
+   * e.g. the terminals on a server without terminals, is shown as
+   * unavailable and does not affect the other lists.
+   */
+  refresh(): Promise<void> {
+    let services = this._services;
+    let sessions = this._fetch('session', services.notebookSessionManager.listRunning());
+    let kernels = this._fetch('kernel', services.kernelManager.listRunning());
+    let terminals = this._fetch('terminal', services.terminalManager.listRunning());
+    return sessions.then(() => kernels).then(() => terminals);
+  }
+
+  /**
+   * Shut down all of the running sessions, kernels and terminals.
+   *
+   * @returns A promise that resolves when the lists are refreshed.
+   *
+   * #### Notes
+   * The items which fail to shut down are reported together in one
+   * dialog.
+   */
+  shutdownAll(): Promise<void> {
+    // Shutting down a session also shuts down its kernel.
+    let sessionKernels = this._sessions.map(session => session.kernel.id);
+    let kernels = this._kernels.filter(kernel => {
+      return sessionKernels.indexOf(kernel.id) === -1;
+    });
+    let promise = Promise.resolve<void>(void 0);
+    let failures: string[] = [];
+    let items: [ItemKind, RunningItem[]][] = [
+      ['session', this._sessions],
+      ['kernel', kernels],
+      ['terminal', this._terminals]
+    ];
+    for (let [kind, values] of items) {
+      for (let value of values) {
+        promise = promise.then(() => this._shutdown(kind, value)).catch(error => {
+          let message = (error && error.message) || String(error);
+          failures.push(`${Private.itemLabel(kind, value)}: ${message}`);
+        });
+      }
+    }
+    return promise.then(() => {
+      if (failures.length) {
+        Private.showFailures(failures, this.node);
+      }
+      return this.refresh();
+    });
+  }
+
+  /**
+   * Handle the DOM events for the widget.
+   *
+   * @param event - The DOM event sent to the widget.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the widget's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'click') {
+      this._evtClick(event as MouseEvent);
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.node.addEventListener('click', this);
+    this.refresh();
+    this._refreshId = setInterval(() => {
+      if (this.isVisible) this.refresh();
+    }, REFRESH_DURATION);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    this._stopRefresh();
+    super.onBeforeDetach(msg);
+  }
+
+  /**
+   * Handle the `'click'` event for the widget.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let target = event.target as HTMLElement;
+    if (target.classList.contains(REFRESH_CLASS)) {
+      this.refresh();
+      return;
+    }
+    if (target.classList.contains(SHUTDOWN_ALL_CLASS)) {
+      showDialog({
+        title: 'Shut Down All?',
+        body: 'Shut down all running notebook sessions, kernels and ' +
+              'terminals?',
+        host: this.node,
+        okText: 'SHUT DOWN'
+      }).then(result => {
+        if (result && result.text === 'SHUT DOWN') {
+          return this.shutdownAll();
+        }
+      });
+      return;
+    }
+    let item = Private.findItemNode(this.node, target);
+    if (!item) {
+      return;
+    }
+    let kind = item.getAttribute('data-kind') as ItemKind;
+    let index = Number(item.getAttribute('data-index'));
+    let value = this._getItems(kind)[index];
+    if (!value) {
+      return;
+    }
+    if (target.classList.contains(ITEM_SHUTDOWN_CLASS)) {
+      this._shutdown(kind, value).catch(error => {
+        return showError('Shut down failed', error, this.node);
+      }).then(() => this.refresh());
+      return;
+    }
+    if (kind === 'session') {
+      this.sessionOpenRequested.emit(value as ISessionId);
+    } else if (kind === 'terminal') {
+      this.terminalOpenRequested.emit(value as ITerminalId);
+    }
+  }
+
+  /**
+   * Shut down a running item.
+   */
+  private _shutdown(kind: ItemKind, value: RunningItem): Promise<void> {
+    let services = this._services;
+    let promise: Promise<void>;
+    switch (kind) {
+    case 'session':
+      let sessionId = value as ISessionId;
+      promise = services.notebookSessionManager.connectTo(sessionId.id)
+        .then(session => session.shutdown());
+      break;
+    case 'kernel':
+      let kernelId = value as IKernelId;
+      promise = services.kernelManager.connectTo(kernelId.id)
+        .then(kernel => kernel.shutdown());
+      break;
+    default:
+      let terminalId = value as ITerminalId;
+      promise = services.terminalManager.shutdown(terminalId.name);
+      break;
+    }
+    return promise;
+  }
+
+  /**
+   * Fetch the list of items of a given kind and render it.
+   */
+  private _fetch(kind: ItemKind, request: Promise<RunningItem[]>): Promise<void> {
+    return request.then(items => {
+      if (this.isDisposed) {
+        return;
+      }
+      this._setItems(kind, items);
+      this._errors[kind] = false;
+      this._render();
+    }, () => {
+      if (this.isDisposed) {
+        return;
+      }
+      this._setItems(kind, []);
+      this._errors[kind] = true;
+      this._render();
+    });
+  }
+
+  /**
+   * Set the list of items of a given kind.
+   */
+  private _setItems(kind: ItemKind, items: RunningItem[]): void {
+    switch (kind) {
+    case 'session':
+      this._sessions = items as ISessionId[];
+      break;
+    case 'kernel':
+      this._kernels = items as IKernelId[];
+      break;
+    default:
+      this._terminals = items as ITerminalId[];
+      break;
+    }
+  }
+
+  /**
+   * Get the list of items of a given kind.
+   */
+  private _getItems(kind: ItemKind): RunningItem[] {
+    switch (kind) {
+    case 'session':
+      return this._sessions;
+    case 'kernel':
+      return this._kernels;
+    default:
+      return this._terminals;
+    }
+  }
+
+  /**
+   * Render the lists of running items.
+   */
+  private _render(): void {
+    let kinds: ItemKind[] = ['session', 'kernel', 'terminal'];
+    for (let kind of kinds) {
+      let selector = `.${SECTION_CLASS}-${kind} .${LIST_CLASS}`;
+      let list = this.node.querySelector(selector) as HTMLElement;
+      list.textContent = '';
+      list.classList.toggle(ERROR_CLASS, !!this._errors[kind]);
+      let items = this._getItems(kind);
+      if (items.length === 0) {
+        list.classList.add(EMPTY_CLASS);
+        continue;
+      }
+      list.classList.remove(EMPTY_CLASS);
+      items.forEach((value, index) => {
+        list.appendChild(Private.createItemNode(kind, value, index));
+      });
+    }
+  }
+
+  /**
+   * Stop the periodic refresh.
+   */
+  private _stopRefresh(): void {
+    if (this._refreshId !== -1) {
+      clearInterval(this._refreshId);
+      this._refreshId = -1;
+    }
+  }
+
+  private _services: JupyterServices = null;
+  private _sessions: ISessionId[] = [];
+  private _kernels: IKernelId[] = [];
+  private _terminals: ITerminalId[] = [];
+  private _errors: { [kind: string]: boolean } = Object.create(null);
+  private _refreshId = -1;
+}
+
+
+/**
+ * A namespace for running sessions widget private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when the user requests to open a notebook session.
+   */
+  export
+  const sessionOpenRequestedSignal = new Signal<RunningSessionsWidget, ISessionId>();
+
+  /**
+   * A signal emitted when the user requests to open a terminal.
+   */
+  export
+  const terminalOpenRequestedSignal = new Signal<RunningSessionsWidget, ITerminalId>();
+
+  /**
+   * Create the node for a running item.
+   */
+  export
+  function createItemNode(kind: ItemKind, value: RunningItem, index: number): HTMLElement {
+    let node = document.createElement('li');
+    node.className = ITEM_CLASS;
+    node.setAttribute('data-kind', kind);
+    node.setAttribute('data-index', String(index));
+    let label = document.createElement('span');
+    label.className = ITEM_LABEL_CLASS;
+    let shutdown = document.createElement('button');
+    shutdown.className = ITEM_SHUTDOWN_CLASS;
+    shutdown.textContent = 'Shut Down';
+    label.textContent = itemLabel(kind, value);
+    switch (kind) {
+    case 'session':
+      let session = value as ISessionId;
+      label.title = `${session.notebook.path} (${session.kernel.name})`;
+      break;
+    case 'kernel':
+      let kernel = value as IKernelId;
+      label.title = `${kernel.name} (${kernel.id})`;
+      break;
+    default:
+      label.title = label.textContent;
+      break;
+    }
+    node.appendChild(label);
+    node.appendChild(shutdown);
+    return node;
+  }
+
+  /**
+   * Get the label of a running item.
+   */
+  export
+  function itemLabel(kind: ItemKind, value: RunningItem): string {
+    switch (kind) {
+    case 'session':
+      return (value as ISessionId).notebook.path;
+    case 'kernel':
+      return (value as IKernelId).name;
+    default:
+      return `Terminal ${(value as ITerminalId).name}`;
+    }
+  }
+
+  /**
+   * Show the items which failed to shut down in one dialog.
+   */
+  export
+  function showFailures(failures: string[], host: HTMLElement): Promise<void> {
+    let body = document.createElement('ul');
+    for (let failure of failures) {
+      let item = document.createElement('li');
+      item.textContent = failure;
+      body.appendChild(item);
+    }
+    return showDialog({
+      title: 'Shut down failed',
+      body,
+      host,
+      buttons: [okButton]
+    }).then(() => void 0);
+  }
+
+  /**
+   * Find the item node which contains a target node.
+   */
+  export
+  function findItemNode(host: HTMLElement, target: HTMLElement): HTMLElement {
+    while (target && target !== host) {
+      if (target.classList.contains(ITEM_CLASS)) {
+        return target;
+      }
+      target = target.parentElement;
+    }
+    return null;
+  }
+}
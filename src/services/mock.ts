@@ -0,0 +1,274 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  uuid
+} from 'jupyter-js-utils';
+
+import {
+  IKernel, IKernelId, IKernelManager, IKernelOptions, IKernelSpecIds,
+  INotebookSession, INotebookSessionManager, ISessionId, ISessionOptions
+} from 'jupyter-js-services';
+
+import {
+  MockKernel
+} from 'jupyter-js-services/lib/mockkernel';
+
+import {
+  MockSession
+} from 'jupyter-js-services/lib/mocksession';
+
+import {
+  ITerminalId, ITerminalManager
+} from './terminals';
+
+
+/**
+ * The kernel specs reported by the in-memory managers.
+ */
+const KERNELSPECS: IKernelSpecIds = {
+  default: 'python',
+  kernelspecs: {
+    python: {
+      name: 'python',
+      spec: {
+        language: 'python',
+        argv: [],
+        display_name: 'Python (in-memory)',
+        env: {}
+      },
+      resources: {}
+    }
+  }
+};
+
+
+/**
+ * An in-memory kernel manager which requires no notebook server.
+ *
+ * #### Notes
+ * Kernels are `MockKernel` instances, which only handle execution requests.
+ */
+export
+class MockKernelManager implements IKernelManager {
+  /**
+   * Get the available kernel specs.
+   */
+  getSpecs(options?: IKernelOptions): Promise<IKernelSpecIds> {
+    return Promise.resolve(KERNELSPECS);
+  }
+
+  /**
+   * Get a list of running kernels.
+   */
+  listRunning(options?: IKernelOptions): Promise<IKernelId[]> {
+    let ids = Object.keys(this._kernels).map(id => {
+      let kernel = this._kernels[id];
+      return { id: kernel.id, name: kernel.name };
+    });
+    return Promise.resolve(ids);
+  }
+
+  /**
+   * Start a new kernel.
+   */
+  startNew(options?: IKernelOptions): Promise<IKernel> {
+    let name = (options && options.name) || KERNELSPECS.default;
+    return Promise.resolve(this.createKernel({ id: uuid(), name }));
+  }
+
+  /**
+   * Find a kernel by id.
+   */
+  findById(id: string, options?: IKernelOptions): Promise<IKernelId> {
+    let kernel = this._kernels[id];
+    if (!kernel) {
+      let msg = `No running kernel with id: ${id}`;
+      return Promise.reject<IKernelId>(new Error(msg));
+    }
+    return Promise.resolve({ id: kernel.id, name: kernel.name });
+  }
+
+  /**
+   * Connect to an existing kernel.
+   */
+  connectTo(id: string, options?: IKernelOptions): Promise<IKernel> {
+    let kernel = this._kernels[id];
+    if (!kernel) {
+      let msg = `No running kernel with id: ${id}`;
+      return Promise.reject<IKernel>(new Error(msg));
+    }
+    return Promise.resolve(kernel);
+  }
+
+  /**
+   * Create and track a new kernel.
+   *
+   * #### Notes
+   * The kernel is forgotten when it is disposed.
+   */
+  createKernel(options: IKernelId): IKernel {
+    let kernel = new MockKernel(options);
+    this._kernels[kernel.id] = kernel;
+    // The mock kernel has no disposed signal, so wrap its `dispose`.
+    let dispose = kernel.dispose.bind(kernel);
+    kernel.dispose = () => {
+      delete this._kernels[kernel.id];
+      dispose();
+    };
+    return kernel;
+  }
+
+  private _kernels: { [key: string]: IKernel } = Object.create(null);
+}
+
+
+/**
+ * An in-memory notebook session manager which requires no notebook server.
+ */
+export
+class MockSessionManager implements INotebookSessionManager {
+  /**
+   * Construct a new session manager.
+   *
+   * @param kernelManager - The kernel manager used to create session kernels.
+   */
+  constructor(kernelManager: MockKernelManager) {
+    this._kernelManager = kernelManager;
+  }
+
+  /**
+   * Get the available kernel specs.
+   */
+  getSpecs(options?: ISessionOptions): Promise<IKernelSpecIds> {
+    return this._kernelManager.getSpecs();
+  }
+
+  /**
+   * Get a list of running sessions.
+   */
+  listRunning(options?: ISessionOptions): Promise<ISessionId[]> {
+    let ids = Object.keys(this._sessions).map(id => {
+      return Private.toSessionId(this._sessions[id]);
+    });
+    return Promise.resolve(ids);
+  }
+
+  /**
+   * Start a new session.
+   */
+  startNew(options: ISessionOptions): Promise<INotebookSession> {
+    let name = options.kernelName || KERNELSPECS.default;
+    let kernel = this._kernelManager.createKernel({ id: uuid(), name });
+    let session = new MockSession(options.notebookPath, kernel);
+    session.id = uuid();
+    this._sessions[session.id] = session;
+    session.sessionDied.connect(() => {
+      delete this._sessions[session.id];
+    });
+    return Promise.resolve(session);
+  }
+
+  /**
+   * Find a session by id.
+   */
+  findById(id: string, options?: ISessionOptions): Promise<ISessionId> {
+    let session = this._sessions[id];
+    if (!session) {
+      let msg = `No running session with id: ${id}`;
+      return Promise.reject<ISessionId>(new Error(msg));
+    }
+    return Promise.resolve(Private.toSessionId(session));
+  }
+
+  /**
+   * Find a session by notebook path.
+   */
+  findByPath(path: string, options?: ISessionOptions): Promise<ISessionId> {
+    for (let id of Object.keys(this._sessions)) {
+      let session = this._sessions[id];
+      if (session.notebookPath === path) {
+        return Promise.resolve(Private.toSessionId(session));
+      }
+    }
+    let msg = `No running session for path: ${path}`;
+    return Promise.reject<ISessionId>(new Error(msg));
+  }
+
+  /**
+   * Connect to a running notebook session.
+   */
+  connectTo(id: string, options?: ISessionOptions): Promise<INotebookSession> {
+    let session = this._sessions[id];
+    if (!session) {
+      let msg = `No running session with id: ${id}`;
+      return Promise.reject<INotebookSession>(new Error(msg));
+    }
+    return Promise.resolve(session);
+  }
+
+  private _kernelManager: MockKernelManager = null;
+  private _sessions: { [key: string]: INotebookSession } = Object.create(null);
+}
+
+
+/**
+ * An in-memory terminal manager which requires no notebook server.
+ *
+ * #### Notes
+ * Only the terminal names are tracked, there are no terminal processes.
+ */
+export
+class MockTerminalManager implements ITerminalManager {
+  /**
+   * Get the list of running terminal sessions.
+   */
+  listRunning(): Promise<ITerminalId[]> {
+    return Promise.resolve(this._names.map(name => ({ name })));
+  }
+
+  /**
+   * Start a new terminal session.
+   */
+  startNew(): Promise<ITerminalId> {
+    let name = String(++this._count);
+    this._names.push(name);
+    return Promise.resolve({ name });
+  }
+
+  /**
+   * Shut down a terminal session by name.
+   */
+  shutdown(name: string): Promise<void> {
+    let index = this._names.indexOf(name);
+    if (index === -1) {
+      let msg = `No running terminal with name: ${name}`;
+      return Promise.reject<void>(new Error(msg));
+    }
+    this._names.splice(index, 1);
+    return Promise.resolve(void 0);
+  }
+
+  private _names: string[] = [];
+  private _count = 0;
+}
+
+
+/**
+ * A namespace for mock services private data.
+ */
+namespace Private {
+  /**
+   * Create a session id model from a session.
+   */
+  export
+  function toSessionId(session: INotebookSession): ISessionId {
+    let kernel = session.kernel;
+    return {
+      id: session.id,
+      notebook: { path: session.notebookPath },
+      kernel: { id: kernel.id, name: kernel.name }
+    };
+  }
+}
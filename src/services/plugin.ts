@@ -11,6 +11,49 @@ import {
   ContentsManager, KernelManager, NotebookSessionManager
 } from 'jupyter-js-services';
 
+import {
+  MockContentsManager
+} from 'jupyter-js-services/lib/mockcontents';
+
+import {
+  MockKernelManager, MockSessionManager, MockTerminalManager
+} from './mock';
+
+import {
+  ITerminalManager, TerminalManager
+} from './terminals';
+
+
+/**
+ * The options used to construct a services provider.
+ *
+ * #### Notes
+ * Any manager which is not given is created against the notebook server
+ * found at `getBaseUrl()`.
+ */
+export
+interface IServicesOptions {
+  /**
+   * The kernel manager to use.
+   */
+  kernelManager?: IKernelManager;
+
+  /**
+   * The notebook session manager to use.
+   */
+  notebookSessionManager?: INotebookSessionManager;
+
+  /**
+   * The contents manager to use.
+   */
+  contentsManager?: IContentsManager;
+
+  /**
+   * The terminal manager to use.
+   */
+  terminalManager?: ITerminalManager;
+}
+
 
 /**
  * An implementation of a services provider.
@@ -20,14 +63,26 @@ class JupyterServices {
 
   /**
    * Construct a new services provider.
+   *
+   * @param options - The managers to use instead of the server defaults.
    */
-  constructor() {
+  constructor(options: IServicesOptions = {}) {
     let baseUrl = getBaseUrl();
     let ajaxSettings = getConfigOption('ajaxSettings');
-    let options = { baseUrl, ajaxSettings };
-    this._kernelManager = new KernelManager(options);
-    this._sessionManager = new NotebookSessionManager(options);
-    this._contentsManager = new ContentsManager(baseUrl, ajaxSettings);
+    let serverOptions = { baseUrl, ajaxSettings };
+    this._kernelManager = (
+      options.kernelManager || new KernelManager(serverOptions)
+    );
+    this._sessionManager = (
+      options.notebookSessionManager ||
+      new NotebookSessionManager(serverOptions)
+    );
+    this._contentsManager = (
+      options.contentsManager || new ContentsManager(baseUrl, ajaxSettings)
+    );
+    this._terminalManager = (
+      options.terminalManager || new TerminalManager(baseUrl, ajaxSettings)
+    );
   }
 
   /**
@@ -60,9 +115,20 @@ class JupyterServices {
     return this._contentsManager;
   }
 
+  /**
+   * Get the terminal manager instance.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get terminalManager(): ITerminalManager {
+    return this._terminalManager;
+  }
+
   private _kernelManager: IKernelManager = null;
   private _sessionManager: INotebookSessionManager = null;
   private _contentsManager: IContentsManager = null;
+  private _terminalManager: ITerminalManager = null;
 }
 
 
@@ -77,3 +143,27 @@ const servicesProvider = {
     return new JupyterServices();
   }
 };
+
+
+/**
+ * An in-memory services provider which requires no notebook server.
+ *
+ * #### Notes
+ * Use this in place of `servicesProvider` in the application `providers`
+ * to run the plugins for demos and tests.  Kernels only handle execution
+ * requests and contents are lost on reload.
+ */
+export
+const mockServicesProvider = {
+  id: 'jupyter.services.mockServices',
+  provides: JupyterServices,
+  resolve: () => {
+    let kernelManager = new MockKernelManager();
+    return new JupyterServices({
+      kernelManager,
+      notebookSessionManager: new MockSessionManager(kernelManager),
+      contentsManager: new MockContentsManager(),
+      terminalManager: new MockTerminalManager()
+    });
+  }
+};
@@ -0,0 +1,129 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IAjaxSettings, ajaxRequest, copy, getBaseUrl, urlPathJoin
+} from 'jupyter-js-utils';
+
+
+/**
+ * The url for the terminal service.
+ */
+const TERMINAL_SERVICE_URL = 'api/terminals';
+
+
+/**
+ * The identity of a server terminal session.
+ */
+export
+interface ITerminalId {
+  /**
+   * The name of the terminal session.
+   */
+  name: string;
+}
+
+
+/**
+ * The interface for a terminal session manager.
+ */
+export
+interface ITerminalManager {
+  /**
+   * Get the list of running terminal sessions.
+   */
+  listRunning(): Promise<ITerminalId[]>;
+
+  /**
+   * Start a new terminal session.
+   */
+  startNew(): Promise<ITerminalId>;
+
+  /**
+   * Shut down a terminal session by name.
+   */
+  shutdown(name: string): Promise<void>;
+}
+
+
+/**
+ * A terminal session manager which uses the notebook server REST API.
+ */
+export
+class TerminalManager implements ITerminalManager {
+  /**
+   * Construct a new terminal manager.
+   *
+   * @param baseUrl - The base url of the notebook server.
+   *
+   * @param ajaxSettings - The default ajax settings for the requests.
+   */
+  constructor(baseUrl?: string, ajaxSettings?: IAjaxSettings) {
+    this._baseUrl = baseUrl || getBaseUrl();
+    this._ajaxSettings = ajaxSettings || {};
+  }
+
+  /**
+   * Get the list of running terminal sessions.
+   */
+  listRunning(): Promise<ITerminalId[]> {
+    let ajaxSettings = this._getAjaxSettings('GET');
+    ajaxSettings.cache = false;
+    return ajaxRequest(this._getUrl(), ajaxSettings).then(success => {
+      if (success.xhr.status !== 200) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      if (!Array.isArray(success.data)) {
+        throw Error('Invalid terminal list');
+      }
+      return success.data as ITerminalId[];
+    });
+  }
+
+  /**
+   * Start a new terminal session.
+   */
+  startNew(): Promise<ITerminalId> {
+    let ajaxSettings = this._getAjaxSettings('POST');
+    return ajaxRequest(this._getUrl(), ajaxSettings).then(success => {
+      if (success.xhr.status !== 200) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      return success.data as ITerminalId;
+    });
+  }
+
+  /**
+   * Shut down a terminal session by name.
+   */
+  shutdown(name: string): Promise<void> {
+    let ajaxSettings = this._getAjaxSettings('DELETE');
+    return ajaxRequest(this._getUrl(name), ajaxSettings).then(success => {
+      if (success.xhr.status !== 204) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+    });
+  }
+
+  /**
+   * Get a copy of the default ajax settings for a request.
+   */
+  private _getAjaxSettings(method: string): IAjaxSettings {
+    let ajaxSettings: IAjaxSettings = copy(this._ajaxSettings) || {};
+    ajaxSettings.method = method;
+    ajaxSettings.dataType = 'json';
+    return ajaxSettings;
+  }
+
+  /**
+   * Get the url for a terminal request.
+   */
+  private _getUrl(name?: string): string {
+    let url = urlPathJoin(this._baseUrl, TERMINAL_SERVICE_URL);
+    return name ? urlPathJoin(url, encodeURIComponent(name)) : url;
+  }
+
+  private _baseUrl = '';
+  private _ajaxSettings: IAjaxSettings = null;
+}
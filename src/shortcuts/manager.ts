@@ -0,0 +1,553 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  IContentsManager
+} from 'jupyter-js-services';
+
+import {
+  IShortcutItem, ABCShortcutRegistry
+} from 'phosphide/lib/services/shortcutregistry';
+
+import {
+  IDisposable
+} from 'phosphor-disposable';
+
+import {
+  EN_US, normalizeKeystroke
+} from 'phosphor-keymap';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+
+/**
+ * The default local storage key for shortcut overrides.
+ */
+const STORAGE_KEY = 'jupyter.shortcuts';
+
+/**
+ * The selector used for shortcuts which have no default selector.
+ */
+const DEFAULT_SELECTOR = 'body';
+
+
+/**
+ * A user override of the shortcut for a command.
+ */
+export
+interface IShortcutOverride {
+  /**
+   * The id of the command.
+   */
+  command: string;
+
+  /**
+   * The CSS selector required for the sequence to match.
+   *
+   * #### Notes
+   * If not given, the selector of the default shortcut is used.  The
+   * shortcut of a command with a default shortcut always uses the
+   * selector of the default.
+   */
+  selector?: string;
+
+  /**
+   * The key sequence to trigger the command.
+   *
+   * #### Notes
+   * If not given, the sequence of the default shortcut is used.
+   */
+  sequence?: string[];
+
+  /**
+   * Whether the shortcut for the command is disabled.
+   */
+  disabled?: boolean;
+}
+
+
+/**
+ * An object which persists shortcut overrides.
+ */
+export
+interface IShortcutStorage {
+  /**
+   * Load the stored shortcut overrides.
+   */
+  load(): Promise<IShortcutOverride[]>;
+
+  /**
+   * Store the shortcut overrides.
+   */
+  save(overrides: IShortcutOverride[]): Promise<void>;
+}
+
+
+/**
+ * A shortcut storage backed by the browser local storage.
+ */
+export
+class LocalShortcutStorage implements IShortcutStorage {
+  /**
+   * Construct a new local shortcut storage.
+   *
+   * @param key - The local storage key used for the overrides.
+   */
+  constructor(key = STORAGE_KEY) {
+    this._key = key;
+  }
+
+  /**
+   * Load the stored shortcut overrides.
+   */
+  load(): Promise<IShortcutOverride[]> {
+    let text = window.localStorage.getItem(this._key);
+    return Promise.resolve(Private.parseOverrides(text));
+  }
+
+  /**
+   * Store the shortcut overrides.
+   */
+  save(overrides: IShortcutOverride[]): Promise<void> {
+    try {
+      window.localStorage.setItem(this._key, JSON.stringify(overrides));
+    } catch (error) {
+      return Promise.reject<void>(error);
+    }
+    return Promise.resolve(void 0);
+  }
+
+  private _key = '';
+}
+
+
+/**
+ * A shortcut storage backed by a JSON file on the notebook server.
+ */
+export
+class ContentsShortcutStorage implements IShortcutStorage {
+  /**
+   * Construct a new contents shortcut storage.
+   *
+   * @param contents - The contents manager used to access the file.
+   *
+   * @param path - The path of the JSON file holding the overrides.
+   */
+  constructor(contents: IContentsManager, path: string) {
+    this._contents = contents;
+    this._path = path;
+  }
+
+  /**
+   * Load the stored shortcut overrides.
+   *
+   * #### Notes
+   * A missing file is treated as having no overrides.
+   */
+  load(): Promise<IShortcutOverride[]> {
+    let options = { type: 'file', format: 'text' };
+    return this._contents.get(this._path, options).then(model => {
+      return Private.parseOverrides(model.content);
+    }, () => {
+      return [] as IShortcutOverride[];
+    });
+  }
+
+  /**
+   * Store the shortcut overrides.
+   */
+  save(overrides: IShortcutOverride[]): Promise<void> {
+    return this._contents.save(this._path, {
+      type: 'file',
+      format: 'text',
+      content: JSON.stringify(overrides, null, 2)
+    }).then(() => { return void 0; });
+  }
+
+  private _contents: IContentsManager = null;
+  private _path = '';
+}
+
+
+/**
+ * A manager which combines the default shortcuts with user overrides.
+ *
+ * #### Notes
+ * The effective shortcuts are installed in the application shortcut
+ * registry and are re-applied whenever the defaults or the overrides
+ * change, so edits take effect without reloading the page.
+ *
+ * The shortcut registry holds a single sequence per command, so the
+ * overrides are keyed by command id and a command has one shortcut at
+ * most.  An override cannot move the shortcut of a command with a
+ * default to another selector, it is rejected by [[setShortcut]] and
+ * ignored when loaded from storage.
+ */
+export
+class ShortcutManager {
+  /**
+   * Construct a new shortcut manager.
+   *
+   * @param registry - The application shortcut registry.
+   *
+   * @param storage - The storage used to persist the overrides.
+   */
+  constructor(registry: ABCShortcutRegistry, storage: IShortcutStorage) {
+    this._registry = registry;
+    this._storage = storage;
+  }
+
+  /**
+   * A signal emitted when the effective shortcuts change.
+   */
+  get shortcutsChanged(): ISignal<ShortcutManager, void> {
+    return Private.shortcutsChangedSignal.bind(this);
+  }
+
+  /**
+   * Get a copy of the default shortcuts.
+   */
+  get defaults(): IShortcutItem[] {
+    return this._defaults.map(Private.copyItem);
+  }
+
+  /**
+   * Get a copy of the user overrides.
+   */
+  get overrides(): IShortcutOverride[] {
+    return this._overrides.map(Private.copyOverride);
+  }
+
+  /**
+   * Get a copy of the effective shortcuts.
+   */
+  get shortcuts(): IShortcutItem[] {
+    return this._shortcuts.map(Private.copyItem);
+  }
+
+  /**
+   * Add default shortcuts to the manager.
+   *
+   * @param items - The default shortcuts to add.
+   *
+   * #### Notes
+   * A default for a command which already has one replaces it.
+   */
+  addDefaults(items: IShortcutItem[]): void {
+    for (let item of items) {
+      this._defaults = this._defaults.filter(d => d.command !== item.command);
+      this._defaults.push(Private.copyItem(item));
+    }
+    this._apply();
+  }
+
+  /**
+   * Load the user overrides from storage and apply them.
+   */
+  load(): Promise<void> {
+    return this._storage.load().then(overrides => {
+      this._overrides = overrides.map(Private.copyOverride);
+      this._apply();
+    });
+  }
+
+  /**
+   * Bind a command to a key sequence.
+   *
+   * @param command - The id of the command.
+   *
+   * @param sequence - The key sequence to trigger the command.
+   *
+   * @param selector - The CSS selector required for the sequence to match.
+   *   The default selector of the command is used if not given.
+   *
+   * @returns A promise which resolves when the override is stored, or
+   *   rejects if the sequence or the selector is not valid.
+   *
+   * #### Notes
+   * This can be used both to rebind a default shortcut and to add a
+   * shortcut for a command which has none.  A command with a default
+   * shortcut only accepts the selector of the default.
+   */
+  setShortcut(command: string, sequence: string[], selector?: string): Promise<void> {
+    try {
+      Private.normalizeSequence(sequence);
+    } catch (error) {
+      return Promise.reject<void>(error);
+    }
+    let item = this._findDefault(command);
+    if (item && selector && selector !== item.selector) {
+      return Promise.reject<void>(new Error(
+        `The shortcut for '${command}' must use the selector ` +
+        `'${item.selector}', a command can only have one shortcut`
+      ));
+    }
+    let override: IShortcutOverride = { command, sequence: sequence.slice() };
+    if (!item) {
+      override.selector = selector || DEFAULT_SELECTOR;
+    }
+    return this._setOverride(override);
+  }
+
+  /**
+   * Disable the shortcut for a command.
+   *
+   * @param command - The id of the command.
+   */
+  disable(command: string): Promise<void> {
+    return this._setOverride({ command, disabled: true });
+  }
+
+  /**
+   * Restore the default shortcut for a command.
+   *
+   * @param command - The id of the command.
+   */
+  reset(command: string): Promise<void> {
+    this._overrides = this._overrides.filter(o => o.command !== command);
+    this._apply();
+    return this._storage.save(this.overrides);
+  }
+
+  /**
+   * Restore the default shortcuts for all commands.
+   */
+  resetAll(): Promise<void> {
+    this._overrides = [];
+    this._apply();
+    return this._storage.save(this.overrides);
+  }
+
+  /**
+   * Find the effective shortcuts which conflict with a shortcut.
+   *
+   * @param item - The shortcut of interest.
+   *
+   * @returns The shortcuts of other commands with the same selector whose
+   *   sequence equals or is a prefix of the sequence of the item, or the
+   *   other way around.
+   */
+  findConflicts(item: IShortcutItem): IShortcutItem[] {
+    let sequence = Private.normalizeSequence(item.sequence);
+    return this.shortcuts.filter(other => {
+      if (other.command === item.command) {
+        return false;
+      }
+      if (other.selector !== item.selector) {
+        return false;
+      }
+      return Private.overlaps(sequence, other.sequence);
+    });
+  }
+
+  /**
+   * Replace the override for a command and store the overrides.
+   */
+  private _setOverride(override: IShortcutOverride): Promise<void> {
+    let command = override.command;
+    this._overrides = this._overrides.filter(o => o.command !== command);
+    this._overrides.push(override);
+    this._apply();
+    return this._storage.save(this.overrides);
+  }
+
+  /**
+   * Find the default shortcut for a command.
+   */
+  private _findDefault(command: string): IShortcutItem {
+    for (let item of this._defaults) {
+      if (item.command === command) {
+        return item;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Compute the effective shortcuts and install them in the registry.
+   */
+  private _apply(): void {
+    let shortcuts: IShortcutItem[] = [];
+    let overridden: { [command: string]: IShortcutOverride } = {};
+    for (let override of this._overrides) {
+      overridden[override.command] = override;
+    }
+    for (let item of this._defaults) {
+      let override = overridden[item.command];
+      // An override for another selector is ignored.
+      if (override && override.selector && override.selector !== item.selector) {
+        override = null;
+      }
+      if (!override) {
+        shortcuts.push(Private.copyItem(item));
+      } else if (!override.disabled) {
+        shortcuts.push({
+          command: item.command,
+          selector: item.selector,
+          sequence: (override.sequence || item.sequence).slice()
+        });
+      }
+    }
+    for (let override of this._overrides) {
+      if (override.disabled || !override.sequence) {
+        continue;
+      }
+      if (this._findDefault(override.command)) {
+        continue;
+      }
+      shortcuts.push({
+        command: override.command,
+        selector: override.selector || DEFAULT_SELECTOR,
+        sequence: override.sequence.slice()
+      });
+    }
+
+    // Drop the shortcuts with an invalid sequence.
+    shortcuts = shortcuts.filter(item => {
+      try {
+        Private.normalizeSequence(item.sequence);
+      } catch (error) {
+        return false;
+      }
+      return true;
+    });
+
+    if (this._disposable) {
+      this._disposable.dispose();
+    }
+    this._shortcuts = shortcuts;
+    this._disposable = this._registry.add(shortcuts);
+    this.shortcutsChanged.emit(void 0);
+  }
+
+  private _registry: ABCShortcutRegistry = null;
+  private _storage: IShortcutStorage = null;
+  private _defaults: IShortcutItem[] = [];
+  private _overrides: IShortcutOverride[] = [];
+  private _shortcuts: IShortcutItem[] = [];
+  private _disposable: IDisposable = null;
+}
+
+
+/**
+ * A namespace for shortcut manager private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when the effective shortcuts change.
+   */
+  export
+  const shortcutsChangedSignal = new Signal<ShortcutManager, void>();
+
+  /**
+   * Parse the text of stored shortcut overrides.
+   *
+   * #### Notes
+   * Text which is not a JSON array gives no overrides, and the entries
+   * which are not valid overrides are dropped.
+   */
+  export
+  function parseOverrides(text: string): IShortcutOverride[] {
+    if (!text) {
+      return [];
+    }
+    let value: IShortcutOverride[];
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.filter(isOverride).map(copyOverride);
+  }
+
+  /**
+   * Test whether a parsed value is a valid shortcut override.
+   */
+  function isOverride(value: IShortcutOverride): boolean {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+    if (typeof value.command !== 'string' || !value.command) {
+      return false;
+    }
+    if (value.selector !== void 0 && typeof value.selector !== 'string') {
+      return false;
+    }
+    if (value.disabled !== void 0 && typeof value.disabled !== 'boolean') {
+      return false;
+    }
+    if (value.sequence === void 0) {
+      return true;
+    }
+    if (!Array.isArray(value.sequence)) {
+      return false;
+    }
+    return value.sequence.every(keystroke => typeof keystroke === 'string');
+  }
+
+  /**
+   * Create a copy of a shortcut item.
+   */
+  export
+  function copyItem(item: IShortcutItem): IShortcutItem {
+    return {
+      command: item.command,
+      selector: item.selector,
+      sequence: item.sequence.slice()
+    };
+  }
+
+  /**
+   * Create a copy of a shortcut override.
+   */
+  export
+  function copyOverride(override: IShortcutOverride): IShortcutOverride {
+    let value: IShortcutOverride = { command: override.command };
+    if (override.selector) {
+      value.selector = override.selector;
+    }
+    if (override.sequence) {
+      value.sequence = override.sequence.slice();
+    }
+    if (override.disabled) {
+      value.disabled = true;
+    }
+    return value;
+  }
+
+  /**
+   * Normalize the keystrokes of a key sequence.
+   *
+   * #### Notes
+   * An error is thrown if the sequence is empty or a keystroke is not
+   * valid.
+   */
+  export
+  function normalizeSequence(sequence: string[]): string[] {
+    if (!sequence || sequence.length === 0) {
+      throw new Error('Empty key sequence');
+    }
+    return sequence.map(keystroke => normalizeKeystroke(keystroke, EN_US));
+  }
+
+  /**
+   * Test whether a normalized sequence overlaps with another sequence.
+   */
+  export
+  function overlaps(normalized: string[], sequence: string[]): boolean {
+    let other = normalizeSequence(sequence);
+    let n = Math.min(normalized.length, other.length);
+    for (let i = 0; i < n; ++i) {
+      if (normalized[i] !== other[i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
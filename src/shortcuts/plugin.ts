@@ -2,10 +2,35 @@
 // Distributed under the terms of the Modified BSD License.
 'use strict';
 
+import {
+  getConfigOption
+} from 'jupyter-js-utils';
+
+import {
+  showDialog
+} from 'jupyter-js-ui/lib/dialog';
+
 import {
   Application
 } from 'phosphide/lib/core/application';
 
+import {
+  IShortcutItem, ABCShortcutRegistry
+} from 'phosphide/lib/services/shortcutregistry';
+
+import {
+  showError
+} from '../dialog';
+
+import {
+  JupyterServices
+} from '../services/plugin';
+
+import {
+  ContentsShortcutStorage, IShortcutStorage, LocalShortcutStorage,
+  ShortcutManager
+} from './manager';
+
 
 /**
  * The list of default application shortcuts.
@@ -30,7 +55,7 @@ import {
  * (`'*'`) selector. For almost any use case where a global keyboard shortcut is
  * required, using the `'body'` selector is more appropriate.
  */
-const SHORTCUTS = [
+const SHORTCUTS: IShortcutItem[] = [
   {
     command: 'command-palette:toggle',
     selector: 'body',
@@ -51,6 +76,16 @@ const SHORTCUTS = [
     selector: 'body[data-left-area="file-browser"]',
     sequence: ['Escape']
   },
+  {
+    command: 'running:toggle',
+    selector: 'body',
+    sequence: ['Accel Shift K']
+  },
+  {
+    command: 'running:hide',
+    selector: 'body[data-left-area="running-sessions"]',
+    sequence: ['Escape']
+  },
   {
     command: 'file-operations:new-text-file',
     selector: 'body',
@@ -66,6 +101,11 @@ const SHORTCUTS = [
     selector: '.jp-Document',
     sequence: ['Accel S']
   },
+  {
+    command: 'file-operations:save-as',
+    selector: '.jp-Document',
+    sequence: ['Accel Shift S']
+  },
   {
     command: 'file-operations:close',
     selector: '.jp-Document',
@@ -141,6 +181,36 @@ const SHORTCUTS = [
     selector: '.jp-Notebook.jp-mod-commandMode',
     sequence: ['B']
   },
+  {
+    command: 'notebook-cells:delete',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['D', 'D']
+  },
+  {
+    command: 'notebook-cells:undo-delete',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Z']
+  },
+  {
+    command: 'notebook-cells:move-up',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Ctrl Shift ArrowUp']
+  },
+  {
+    command: 'notebook-cells:move-down',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Ctrl Shift ArrowDown']
+  },
+  {
+    command: 'notebook-cells:merge-below',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Shift M']
+  },
+  {
+    command: 'notebook-cells:split',
+    selector: '.jp-Notebook.jp-mod-editMode',
+    sequence: ['Ctrl Shift -']
+  },
   {
     command: 'notebook-cells:select-previous',
     selector: '.jp-Notebook.jp-mod-commandMode',
@@ -151,6 +221,31 @@ const SHORTCUTS = [
     selector: '.jp-Notebook.jp-mod-commandMode',
     sequence: ['ArrowDown']
   },
+  {
+    command: 'notebook-cells:extend-selection-above',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Shift ArrowUp']
+  },
+  {
+    command: 'notebook-cells:extend-selection-above-alt',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Shift K']
+  },
+  {
+    command: 'notebook-cells:extend-selection-below',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Shift ArrowDown']
+  },
+  {
+    command: 'notebook-cells:extend-selection-below-alt',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Shift J']
+  },
+  {
+    command: 'notebook-cells:select-all',
+    selector: '.jp-Notebook.jp-mod-commandMode',
+    sequence: ['Accel A']
+  },
   {
     command: 'notebook-cells:toggle-linenumbers',
     selector: '.jp-Notebook.jp-mod-commandMode',
@@ -165,18 +260,291 @@ const SHORTCUTS = [
     command: 'notebook-cells:commandMode',
     selector: '.jp-Notebook.jp-mod-editMode',
     sequence: ['Escape']
+  },
+  {
+    command: 'notebook:find',
+    selector: '.jp-Notebook',
+    sequence: ['Accel F']
+  },
+  {
+    command: 'notebook:find-and-replace',
+    selector: '.jp-Notebook',
+    sequence: ['Accel H']
+  },
+  {
+    command: 'image-widget:zoom-in',
+    selector: '.jp-ImageWidget',
+    sequence: ['=']
+  },
+  {
+    command: 'image-widget:zoom-out',
+    selector: '.jp-ImageWidget',
+    sequence: ['-']
+  },
+  {
+    command: 'image-widget:reset-zoom',
+    selector: '.jp-ImageWidget',
+    sequence: ['0']
+  },
+  {
+    command: 'image-widget:fit',
+    selector: '.jp-ImageWidget',
+    sequence: ['F']
+  },
+  {
+    command: 'image-widget:rotate-clockwise',
+    selector: '.jp-ImageWidget',
+    sequence: ['R']
+  },
+  {
+    command: 'image-widget:rotate-counterclockwise',
+    selector: '.jp-ImageWidget',
+    sequence: ['Shift R']
+  },
+  {
+    command: 'image-widget:flip-horizontal',
+    selector: '.jp-ImageWidget',
+    sequence: ['H']
+  },
+  {
+    command: 'image-widget:flip-vertical',
+    selector: '.jp-ImageWidget',
+    sequence: ['V']
+  },
+  {
+    command: 'image-widget:reload',
+    selector: '.jp-ImageWidget',
+    sequence: ['Shift F5']
   }
 ];
 
 
+/**
+ * The shortcut manager provider.
+ *
+ * #### Notes
+ * The overrides are stored in the JSON file given by the `shortcutsPath`
+ * page config option if it is set, and in local storage otherwise.
+ */
+export
+const shortcutManagerProvider = {
+  id: 'jupyter.services.shortcutManager',
+  provides: ShortcutManager,
+  requires: [ABCShortcutRegistry, JupyterServices],
+  resolve: (registry: ABCShortcutRegistry, services: JupyterServices) => {
+    let path = getConfigOption('shortcutsPath');
+    let storage: IShortcutStorage;
+    if (path) {
+      storage = new ContentsShortcutStorage(services.contentsManager, path);
+    } else {
+      storage = new LocalShortcutStorage();
+    }
+    return new ShortcutManager(registry, storage);
+  }
+};
+
+
 /**
  * The default shortcuts extension.
  */
 export
 const shortcutsExtension = {
   id: 'jupyter.extensions.shortcuts',
-  activate: (app: Application): Promise<void> => {
-    app.shortcuts.add(SHORTCUTS);
-    return Promise.resolve(void 0);
-  }
+  requires: [ShortcutManager],
+  activate: activateShortcuts
 };
+
+
+/**
+ * Activate the shortcuts extension.
+ */
+function activateShortcuts(app: Application, manager: ShortcutManager): Promise<void> {
+  manager.addDefaults(SHORTCUTS);
+
+  app.commands.add([
+    {
+      id: 'shortcuts:edit',
+      handler: () => { editShortcut(app, manager); }
+    },
+    {
+      id: 'shortcuts:reset-all',
+      handler: () => {
+        manager.resetAll().catch(error => {
+          showError('Reset failed', error);
+        });
+      }
+    },
+    {
+      id: 'shortcuts:reload',
+      handler: () => {
+        manager.load().catch(error => {
+          showError('Reload failed', error);
+        });
+      }
+    }
+  ]);
+  app.palette.add([
+    {
+      command: 'shortcuts:edit',
+      category: 'Keyboard Shortcuts',
+      text: 'Edit Shortcut',
+      caption: 'Rebind, disable or add a keyboard shortcut'
+    },
+    {
+      command: 'shortcuts:reset-all',
+      category: 'Keyboard Shortcuts',
+      text: 'Reset All Shortcuts',
+      caption: 'Restore the default keyboard shortcuts'
+    },
+    {
+      command: 'shortcuts:reload',
+      category: 'Keyboard Shortcuts',
+      text: 'Reload Shortcuts',
+      caption: 'Reload the keyboard shortcut settings'
+    }
+  ]);
+
+  return manager.load().catch(error => {
+    showError('Could not load shortcuts', error);
+  });
+}
+
+
+/**
+ * Show a dialog to edit the shortcut for a command.
+ */
+function editShortcut(app: Application, manager: ShortcutManager): Promise<void> {
+  let form = Private.createForm(app.commands.list(), manager.shortcuts);
+  return showDialog({
+    title: 'Edit Shortcut',
+    body: form.node,
+    okText: 'APPLY'
+  }).then(result => {
+    if (!result || result.text !== 'APPLY') {
+      return;
+    }
+    let command = form.command.value.trim();
+    if (!command) {
+      return;
+    }
+    if (form.disable.checked) {
+      return manager.disable(command);
+    }
+    let sequence = Private.parseSequence(form.sequence.value);
+    if (sequence.length === 0) {
+      return manager.reset(command);
+    }
+    let selector = form.selector.value.trim();
+    let item = { command, sequence, selector };
+    if (!selector) {
+      let current = Private.findShortcut(manager.defaults, command);
+      item.selector = current ? current.selector : 'body';
+    }
+    let conflicts = manager.findConflicts(item);
+    if (conflicts.length === 0) {
+      return manager.setShortcut(command, sequence, item.selector);
+    }
+    let names = conflicts.map(other => `'${other.command}'`).join(', ');
+    return showDialog({
+      title: 'Shortcut Conflict',
+      body: `The shortcut is already used by ${names}. Bind it anyway?`,
+      okText: 'BIND'
+    }).then(result => {
+      if (result && result.text === 'BIND') {
+        return manager.setShortcut(command, sequence, item.selector);
+      }
+    });
+  }).catch(error => {
+    showError('Invalid shortcut', error);
+  });
+}
+
+
+/**
+ * A namespace for shortcuts plugin private data.
+ */
+namespace Private {
+  /**
+   * The nodes of a shortcut edit form.
+   */
+  export
+  interface IShortcutForm {
+    node: HTMLElement;
+    command: HTMLInputElement;
+    selector: HTMLInputElement;
+    sequence: HTMLInputElement;
+    disable: HTMLInputElement;
+  }
+
+  /**
+   * Create a shortcut edit form.
+   *
+   * #### Notes
+   * Choosing a command fills in its current selector and sequence.
+   */
+  export
+  function createForm(commands: string[], shortcuts: IShortcutItem[]): IShortcutForm {
+    let node = document.createElement('div');
+    let list = document.createElement('datalist');
+    list.id = 'jp-ShortcutForm-commands';
+    for (let id of commands.sort()) {
+      let option = document.createElement('option');
+      option.value = id;
+      list.appendChild(option);
+    }
+    let command = createInput(node, 'Command');
+    command.setAttribute('list', list.id);
+    node.appendChild(list);
+    let selector = createInput(node, 'Selector');
+    selector.placeholder = 'body';
+    let sequence = createInput(node, 'Keys');
+    sequence.placeholder = 'e.g. Accel Shift K or I, I';
+    let disable = createInput(node, 'Disable');
+    disable.type = 'checkbox';
+    command.addEventListener('change', () => {
+      let item = findShortcut(shortcuts, command.value.trim());
+      selector.value = item ? item.selector : '';
+      sequence.value = item ? item.sequence.join(', ') : '';
+    });
+    return { node, command, selector, sequence, disable };
+  }
+
+  /**
+   * Parse the text of a key sequence.
+   *
+   * #### Notes
+   * Keystrokes are separated by commas.
+   */
+  export
+  function parseSequence(text: string): string[] {
+    return text.split(',').map(ks => ks.trim()).filter(ks => !!ks);
+  }
+
+  /**
+   * Find the shortcut for a command.
+   */
+  export
+  function findShortcut(shortcuts: IShortcutItem[], command: string): IShortcutItem {
+    for (let item of shortcuts) {
+      if (item.command === command) {
+        return item;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Create a labeled input and add it to a form node.
+   */
+  function createInput(node: HTMLElement, text: string): HTMLInputElement {
+    let label = document.createElement('label');
+    label.className = 'jp-ShortcutForm-label';
+    let span = document.createElement('span');
+    span.textContent = text;
+    let input = document.createElement('input');
+    label.appendChild(span);
+    label.appendChild(input);
+    node.appendChild(label);
+    return input;
+  }
+}
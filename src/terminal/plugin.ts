@@ -3,17 +3,162 @@
 'use strict';
 
 import {
-  TerminalWidget
+  showDialog
+} from 'jupyter-js-ui/lib/dialog';
+
+import {
+  ITerminalOptions, TerminalWidget
 } from 'jupyter-js-ui/lib/terminal';
 
 import {
   Application
 } from 'phosphide/lib/core/application';
 
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
 import {
   TabPanel
 } from 'phosphor-tabs';
 
+import {
+  showError
+} from '../dialog';
+
+import {
+  WidgetTracker
+} from '../documenttracker/plugin';
+
+import {
+  JupyterServices
+} from '../services/plugin';
+
+import {
+  ITerminalId, ITerminalManager
+} from '../services/terminals';
+
+
+/**
+ * The class name of the node used to read the terminal theme.
+ *
+ * #### Notes
+ * The color, background color and font size of this class in the theme
+ * are used for new terminals.
+ */
+const THEME_CLASS = 'jp-TerminalTheme';
+
+/**
+ * The prefix of the id of a terminal widget.
+ */
+const TERMINAL_ID_PREFIX = 'jp-TerminalWidget-';
+
+
+/**
+ * A tracker for the terminal widgets connected to server terminal sessions.
+ *
+ * #### Notes
+ * Each widget is connected to the server terminal session of the same
+ * name.  The server session is shut down when its widget is disposed,
+ * which happens when the terminal tab is closed.
+ */
+export
+class TerminalTracker extends WidgetTracker<TerminalWidget> {
+  /**
+   * Construct a new terminal tracker.
+   *
+   * @param manager - The manager for the server terminal sessions.
+   */
+  constructor(manager: ITerminalManager) {
+    super();
+    this._manager = manager;
+  }
+
+  /**
+   * A signal emitted when a terminal is opened.
+   */
+  get opened(): ISignal<TerminalTracker, TerminalWidget> {
+    return Private.openedSignal.bind(this);
+  }
+
+  /**
+   * Find the terminal widget for a server terminal session.
+   *
+   * @param name - The name of the server terminal session.
+   *
+   * @returns The tracked terminal widget, or `null`.
+   */
+  find(name: string): TerminalWidget {
+    for (let widget of this.widgets) {
+      if (widget.id === TERMINAL_ID_PREFIX + name) {
+        return widget;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Open a terminal widget for a server terminal session.
+   *
+   * @param name - The name of the server terminal session.
+   *
+   * @returns The terminal widget, which is created if it is not already
+   *   open.
+   *
+   * #### Notes
+   * An error is thrown if the name is not a valid terminal name.
+   */
+  open(name: string): TerminalWidget {
+    let widget = this.find(name);
+    if (!widget) {
+      widget = Private.createTerminal(name, Private.themeOptions());
+      widget.title.closable = true;
+      widget.disposed.connect(() => {
+        this._manager.shutdown(name).catch(error => {
+          showError('Could not shut down terminal', error);
+        });
+      });
+      this.add(widget);
+    }
+    this.opened.emit(widget);
+    return widget;
+  }
+
+  /**
+   * Start a new server terminal session and open a widget for it.
+   *
+   * @returns A promise which resolves with the terminal widget.
+   */
+  createNew(): Promise<TerminalWidget> {
+    return this._manager.startNew().then(id => this.open(id.name));
+  }
+
+  /**
+   * List the running server terminal sessions which are not open.
+   */
+  listClosed(): Promise<ITerminalId[]> {
+    return this._manager.listRunning().then(ids => {
+      return ids.filter(id => !this.find(id.name));
+    });
+  }
+
+  private _manager: ITerminalManager = null;
+}
+
+
+/**
+ * A service tracking the terminal widgets.
+ */
+export
+const terminalTrackerProvider = {
+  id: 'jupyter.services.terminalTracker',
+  provides: TerminalTracker,
+  requires: [JupyterServices],
+  resolve: (services: JupyterServices) => {
+    return new TerminalTracker(services.terminalManager);
+  }
+};
+
 
 /**
  * The default terminal extension.
@@ -21,40 +166,142 @@ import {
 export
 const terminalExtension = {
   id: 'jupyter.extensions.terminal',
+  requires: [TerminalTracker],
   activate: activateTerminal
 };
 
 
-function activateTerminal(app: Application): Promise<void> {
+function activateTerminal(app: Application, tracker: TerminalTracker): Promise<void> {
 
   let newTerminalId = 'terminal:create-new';
+  let openTerminalId = 'terminal:open';
 
-  app.commands.add([{
-    id: newTerminalId,
-    handler: () => {
-      let term = new TerminalWidget();
-      term.color = 'black';
-      term.background = 'white';
-      term.title.closable = true;
-      app.shell.addToMainArea(term);
-      let stack = term.parent;
-      if (!stack) {
-        return;
+  tracker.opened.connect((sender, term) => {
+    if (!term.isAttached) app.shell.addToMainArea(term);
+    let stack = term.parent;
+    if (!stack) {
+      return;
+    }
+    let tabs = stack.parent;
+    if (tabs instanceof TabPanel) {
+      tabs.currentWidget = term;
+    }
+  });
+
+  app.commands.add([
+    {
+      id: newTerminalId,
+      handler: () => {
+        tracker.createNew().catch(error => {
+          showError('Terminal Error', error);
+        });
       }
-      let tabs = stack.parent;
-      if (tabs instanceof TabPanel) {
-        tabs.currentWidget = term;
+    },
+    {
+      id: openTerminalId,
+      handler: () => {
+        tracker.listClosed().then(ids => {
+          if (ids.length === 0) {
+            return showError('Open Terminal',
+                             'There are no other running terminals');
+          }
+          let select = Private.createTerminalSelect(ids);
+          return showDialog({
+            title: 'Open Terminal',
+            body: select,
+            okText: 'OPEN'
+          }).then(result => {
+            if (result && result.text === 'OPEN') {
+              tracker.open(select.value);
+            }
+          });
+        }).catch(error => {
+          showError('Terminal Error', error);
+        });
       }
     }
-  }]);
+  ]);
   app.palette.add([
     {
       command: newTerminalId,
       category: 'Terminal',
       text: 'New Terminal',
       caption: 'Start a new terminal session'
+    },
+    {
+      command: openTerminalId,
+      category: 'Terminal',
+      text: 'Open Terminal',
+      caption: 'Open a running terminal session'
     }
   ]);
 
   return Promise.resolve(void 0);
 }
+
+
+/**
+ * A namespace for terminal plugin private data.
+ */
+namespace Private {
+  /**
+   * A signal emitted when a terminal is opened.
+   */
+  export
+  const openedSignal = new Signal<TerminalTracker, TerminalWidget>();
+
+  /**
+   * Create a terminal widget connected to a named server terminal session.
+   *
+   * #### Notes
+   * The terminal widget connects to the session named after its instance
+   * count, so the count is set for the construction and then restored.
+   * An error is thrown if the name is not a number.
+   */
+  export
+  function createTerminal(name: string, options: ITerminalOptions): TerminalWidget {
+    let index = Number(name);
+    if (!/^\d+$/.test(name)) {
+      throw new Error(`Invalid terminal name: ${name}`);
+    }
+    let count = TerminalWidget.nterms;
+    TerminalWidget.nterms = index - 1;
+    let term = new TerminalWidget(options);
+    TerminalWidget.nterms = Math.max(count, index);
+    return term;
+  }
+
+  /**
+   * Get the terminal options defined by the theme.
+   */
+  export
+  function themeOptions(): ITerminalOptions {
+    let node = document.createElement('div');
+    node.className = THEME_CLASS;
+    node.style.display = 'none';
+    document.body.appendChild(node);
+    let style = window.getComputedStyle(node);
+    let options: ITerminalOptions = {
+      color: style.color,
+      background: style.backgroundColor,
+      fontSize: parseInt(style.fontSize, 10) || void 0
+    };
+    document.body.removeChild(node);
+    return options;
+  }
+
+  /**
+   * Create a select node for a list of terminal sessions.
+   */
+  export
+  function createTerminalSelect(ids: ITerminalId[]): HTMLSelectElement {
+    let select = document.createElement('select');
+    for (let id of ids) {
+      let option = document.createElement('option');
+      option.value = id.name;
+      option.textContent = `Terminal ${id.name}`;
+      select.appendChild(option);
+    }
+    return select;
+  }
+}
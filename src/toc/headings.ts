@@ -0,0 +1,99 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+
+/**
+ * A markdown heading.
+ */
+export
+interface IHeading {
+  /**
+   * The level of the heading, from 1 to 6.
+   */
+  level: number;
+
+  /**
+   * The plain text of the heading.
+   */
+  text: string;
+}
+
+
+/**
+ * Find the headings of markdown source.
+ *
+ * @param source - The markdown source.
+ *
+ * @returns The headings, in source order.
+ *
+ * #### Notes
+ * Both the `#` and the underlined heading styles are found, lines in
+ * fenced code blocks are ignored.  List items and block quotes are not
+ * taken as the text of an underlined heading.  The common inline
+ * markdown and HTML markup is removed from the text, and headings
+ * without text are left out.
+ */
+export
+function findHeadings(source: string): IHeading[] {
+  let headings: IHeading[] = [];
+  let lines = source.split('\n');
+  let fence = '';
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    let match = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (match) {
+      if (!fence) {
+        fence = match[1];
+      } else if (match[1][0] === fence[0] && match[1].length >= fence.length) {
+        fence = '';
+      }
+      continue;
+    }
+    if (fence) {
+      continue;
+    }
+    match = line.match(/^\s{0,3}(#{1,6})(\s.*)?$/);
+    if (match) {
+      // The closing `#` characters must follow a space.
+      let text = (match[2] || '').replace(/(^|\s+)#+\s*$/, '');
+      Private.addHeading(match[1].length, text, headings);
+      continue;
+    }
+    let next = i + 1 < lines.length ? lines[i + 1] : '';
+    if (Private.isSetextText(line) && /^\s{0,3}(=+|-+)\s*$/.test(next)) {
+      Private.addHeading(next.trim()[0] === '=' ? 1 : 2, line, headings);
+      i++;
+    }
+  }
+  return headings;
+}
+
+
+/**
+ * A namespace for heading private data.
+ */
+namespace Private {
+  /**
+   * Test whether a line can be the text of an underlined heading.
+   */
+  export
+  function isSetextText(line: string): boolean {
+    return !!line.trim() && !/^\s{0,3}([-*+]|\d{1,9}[.)])(\s|$)/.test(line) &&
+      !/^\s{0,3}>/.test(line);
+  }
+
+  /**
+   * Add a heading with plain text.
+   */
+  export
+  function addHeading(level: number, text: string, headings: IHeading[]): void {
+    text = text.replace(/<[^>]*>/g, '')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[*_`]/g, '')
+      .trim();
+    if (text) {
+      headings.push({ level, text });
+    }
+  }
+}
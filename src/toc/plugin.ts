@@ -0,0 +1,90 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  Application
+} from 'phosphide/lib/core/application';
+
+import {
+  ActiveNotebook
+} from '../notebook/plugin';
+
+import {
+  TableOfContents
+} from './widget';
+
+
+/**
+ * The id of the table of contents widget.
+ */
+const TOC_ID = 'table-of-contents';
+
+
+/**
+ * The table of contents extension.
+ */
+export
+const tableOfContentsExtension = {
+  id: 'jupyter.extensions.tableOfContents',
+  requires: [ActiveNotebook],
+  activate: activateTableOfContents
+};
+
+
+/**
+ * Activate the table of contents panel.
+ */
+function activateTableOfContents(app: Application, tracker: ActiveNotebook): Promise<void> {
+  let widget = new TableOfContents();
+  widget.id = TOC_ID;
+  widget.title.text = 'Contents';
+  widget.notebook = tracker.activeNotebook;
+
+  // Show the headings of the active notebook.
+  tracker.activeNotebookChanged.connect((sender, panel) => {
+    widget.notebook = panel;
+  });
+
+  app.commands.add([
+    {
+      id: 'toc:activate',
+      handler: showContents
+    },
+    {
+      id: 'toc:hide',
+      handler: hideContents
+    },
+    {
+      id: 'toc:toggle',
+      handler: toggleContents
+    }
+  ]);
+  app.palette.add([
+    {
+      command: 'toc:toggle',
+      category: 'Table of Contents',
+      text: 'Toggle Table of Contents',
+      caption: 'Show or hide the headings of the active notebook'
+    }
+  ]);
+
+  app.shell.addToRightArea(widget, { rank: 50 });
+  return Promise.resolve(void 0);
+
+  function showContents(): void {
+    app.shell.activateRight(widget.id);
+  }
+
+  function hideContents(): void {
+    if (!widget.isHidden) app.shell.collapseRight();
+  }
+
+  function toggleContents(): void {
+    if (widget.isHidden) {
+      showContents();
+    } else {
+      hideContents();
+    }
+  }
+}
@@ -0,0 +1,430 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import {
+  NotebookPanel
+} from 'jupyter-js-notebook';
+
+import {
+  ICellModel, isMarkdownCellModel
+} from 'jupyter-js-notebook/lib/cells';
+
+import {
+  IListChangedArgs, IObservableList, ListChangeType
+} from 'phosphor-observablelist';
+
+import {
+  Message
+} from 'phosphor-messaging';
+
+import {
+  PanelLayout
+} from 'phosphor-panel';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  findHeadings
+} from './headings';
+
+
+/**
+ * The class name added to table of contents widgets.
+ */
+const TOC_CLASS = 'jp-TableOfContents';
+
+/**
+ * The class name added to the lists of headings.
+ */
+const LIST_CLASS = 'jp-TableOfContents-list';
+
+/**
+ * The class name added to a heading item.
+ */
+const ITEM_CLASS = 'jp-TableOfContents-item';
+
+/**
+ * The class name added to the label of a heading item.
+ */
+const ITEM_LABEL_CLASS = 'jp-TableOfContents-itemLabel';
+
+/**
+ * The class name added to the collapse toggle of a heading item.
+ */
+const TOGGLE_CLASS = 'jp-TableOfContents-toggle';
+
+/**
+ * The class name added to a heading item with sub headings.
+ */
+const PARENT_CLASS = 'jp-mod-parent';
+
+/**
+ * The class name added to a collapsed heading item.
+ */
+const COLLAPSED_CLASS = 'jp-mod-collapsed';
+
+/**
+ * The class name added to the list when there are no headings.
+ */
+const EMPTY_CLASS = 'jp-mod-empty';
+
+/**
+ * The delay before the headings are updated after an edit, in ms.
+ */
+const UPDATE_DELAY = 200;
+
+
+/**
+ * A widget which lists the markdown headings of a notebook.
+ *
+ * #### Notes
+ * The headings are shown as a tree which follows the heading levels.
+ * Clicking a heading activates its cell and scrolls the cell into view.
+ */
+export
+class TableOfContents extends Widget {
+  /**
+   * Create a new node for the widget.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let list = document.createElement('ul');
+    list.className = `${LIST_CLASS} ${EMPTY_CLASS}`;
+    node.appendChild(list);
+    return node;
+  }
+
+  /**
+   * Construct a new table of contents widget.
+   */
+  constructor() {
+    super();
+    this.addClass(TOC_CLASS);
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    if (this._timerId !== -1) {
+      clearTimeout(this._timerId);
+      this._timerId = -1;
+    }
+    this.notebook = null;
+    super.dispose();
+  }
+
+  /**
+   * Get the notebook panel shown by the widget.
+   */
+  get notebook(): NotebookPanel {
+    return this._notebook;
+  }
+
+  /**
+   * Set the notebook panel shown by the widget.
+   *
+   * #### Notes
+   * A `null` value clears the widget.
+   */
+  set notebook(value: NotebookPanel) {
+    if (value === this._notebook) {
+      return;
+    }
+    if (this._notebook && !this._notebook.isDisposed) {
+      let cells = this._notebook.model.cells;
+      cells.changed.disconnect(this._onCellsChanged, this);
+      for (let i = 0; i < cells.length; i++) {
+        this._unwatch(cells.get(i));
+      }
+    }
+    this._notebook = value;
+    this._collapsed = [];
+    if (value) {
+      let cells = value.model.cells;
+      cells.changed.connect(this._onCellsChanged, this);
+      for (let i = 0; i < cells.length; i++) {
+        this._watch(cells.get(i));
+      }
+    }
+    this.update();
+  }
+
+  /**
+   * Handle the DOM events for the widget.
+   *
+   * @param event - The DOM event sent to the widget.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the widget's node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'click') {
+      this._evtClick(event as MouseEvent);
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.node.addEventListener('click', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    super.onBeforeDetach(msg);
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    if (this._timerId !== -1) {
+      clearTimeout(this._timerId);
+      this._timerId = -1;
+    }
+    let headings: Private.IHeading[] = [];
+    let model = this._notebook ? this._notebook.model : null;
+    for (let i = 0; model && i < model.cells.length; i++) {
+      let cell = model.cells.get(i);
+      if (!isMarkdownCellModel(cell)) {
+        continue;
+      }
+      for (let heading of findHeadings(cell.input.textEditor.text)) {
+        headings.push({ cell, level: heading.level, text: heading.text });
+      }
+    }
+    this._headings = headings;
+    this._render();
+  }
+
+  /**
+   * Handle the `'click'` event for the widget.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let target = event.target as HTMLElement;
+    let item = target;
+    while (item && item !== this.node && !item.classList.contains(ITEM_CLASS)) {
+      item = item.parentElement;
+    }
+    if (!item || item === this.node) {
+      return;
+    }
+    let heading = this._headings[Number(item.getAttribute('data-index'))];
+    if (!heading) {
+      return;
+    }
+    if (target.classList.contains(TOGGLE_CLASS)) {
+      this._toggle(heading);
+      item.classList.toggle(COLLAPSED_CLASS);
+      return;
+    }
+    let model = this._notebook.model;
+    let index = model.cells.indexOf(heading.cell);
+    if (index === -1) {
+      return;
+    }
+    model.activeCellIndex = index;
+    model.mode = 'command';
+    let layout = this._notebook.notebook.layout as PanelLayout;
+    let widget = layout.childAt(index);
+    if (widget) {
+      widget.node.scrollIntoView(true);
+    }
+    this._notebook.notebook.node.focus();
+  }
+
+  /**
+   * Handle a change to the cells of the notebook.
+   */
+  private _onCellsChanged(sender: IObservableList<ICellModel>, args: IListChangedArgs<ICellModel>): void {
+    switch (args.type) {
+    case ListChangeType.Add:
+      this._watch(args.newValue as ICellModel);
+      break;
+    case ListChangeType.Remove:
+      this._unwatch(args.oldValue as ICellModel);
+      break;
+    case ListChangeType.Replace:
+      for (let cell of args.oldValue as ICellModel[]) {
+        this._unwatch(cell);
+      }
+      for (let cell of args.newValue as ICellModel[]) {
+        this._watch(cell);
+      }
+      break;
+    case ListChangeType.Set:
+      this._unwatch(args.oldValue as ICellModel);
+      this._watch(args.newValue as ICellModel);
+      break;
+    }
+    this.update();
+  }
+
+  /**
+   * Handle a change to the text of a cell.
+   *
+   * #### Notes
+   * The update is delayed, so typing does not parse the notebook on
+   * each key.
+   */
+  private _onTextChanged(): void {
+    if (this._timerId === -1) {
+      this._timerId = setTimeout(() => { this.update(); }, UPDATE_DELAY);
+    }
+  }
+
+  /**
+   * Follow the text changes of a cell.
+   */
+  private _watch(cell: ICellModel): void {
+    if (cell && !cell.isDisposed) {
+      cell.input.textEditor.stateChanged.connect(this._onTextChanged, this);
+    }
+  }
+
+  /**
+   * Stop following the text changes of a cell.
+   */
+  private _unwatch(cell: ICellModel): void {
+    if (cell && !cell.isDisposed) {
+      cell.input.textEditor.stateChanged.disconnect(this._onTextChanged, this);
+    }
+  }
+
+  /**
+   * Toggle the collapsed state of a heading.
+   */
+  private _toggle(heading: Private.IHeading): void {
+    let index = this._findCollapsed(heading);
+    if (index === -1) {
+      this._collapsed.push({ cell: heading.cell, text: heading.text });
+    } else {
+      this._collapsed.splice(index, 1);
+    }
+  }
+
+  /**
+   * Find the collapsed state of a heading.
+   *
+   * #### Notes
+   * The state is kept across updates for the headings with the same
+   * cell and text.
+   */
+  private _findCollapsed(heading: Private.IHeading): number {
+    for (let i = 0; i < this._collapsed.length; i++) {
+      let collapsed = this._collapsed[i];
+      if (collapsed.cell === heading.cell && collapsed.text === heading.text) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Render the tree of headings.
+   */
+  private _render(): void {
+    let root = this.node.getElementsByClassName(LIST_CLASS)[0] as HTMLElement;
+    root.textContent = '';
+    root.classList.toggle(EMPTY_CLASS, this._headings.length === 0);
+    // The stack of the items which can take sub headings.
+    let stack: [number, HTMLElement][] = [];
+    this._headings.forEach((heading, index) => {
+      while (stack.length && stack[stack.length - 1][0] >= heading.level) {
+        stack.pop();
+      }
+      let list = root;
+      if (stack.length) {
+        list = Private.findSubList(stack[stack.length - 1][1]);
+      }
+      let item = Private.createItemNode(heading, index);
+      if (this._findCollapsed(heading) !== -1) {
+        item.classList.add(COLLAPSED_CLASS);
+      }
+      list.appendChild(item);
+      stack.push([heading.level, item]);
+    });
+  }
+
+  private _notebook: NotebookPanel = null;
+  private _headings: Private.IHeading[] = [];
+  private _collapsed: { cell: ICellModel, text: string }[] = [];
+  private _timerId = -1;
+}
+
+
+/**
+ * A namespace for table of contents widget private data.
+ */
+namespace Private {
+  /**
+   * A markdown heading of a notebook.
+   */
+  export
+  interface IHeading {
+    /**
+     * The cell which contains the heading.
+     */
+    cell: ICellModel;
+
+    /**
+     * The level of the heading, from 1 to 6.
+     */
+    level: number;
+
+    /**
+     * The text of the heading.
+     */
+    text: string;
+  }
+
+  /**
+   * Create the node for a heading item.
+   */
+  export
+  function createItemNode(heading: IHeading, index: number): HTMLElement {
+    let item = document.createElement('li');
+    item.className = `${ITEM_CLASS} ${ITEM_CLASS}-h${heading.level}`;
+    item.setAttribute('data-index', String(index));
+    let toggle = document.createElement('span');
+    toggle.className = TOGGLE_CLASS;
+    let label = document.createElement('span');
+    label.className = ITEM_LABEL_CLASS;
+    label.textContent = heading.text;
+    label.title = heading.text;
+    item.appendChild(toggle);
+    item.appendChild(label);
+    return item;
+  }
+
+  /**
+   * Get the list of sub headings of a heading item, creating it if needed.
+   */
+  export
+  function findSubList(item: HTMLElement): HTMLElement {
+    let last = item.lastChild as HTMLElement;
+    if (last && last.classList.contains(LIST_CLASS)) {
+      return last;
+    }
+    let list = document.createElement('ul');
+    list.className = LIST_CLASS;
+    item.appendChild(list);
+    item.classList.add(PARENT_CLASS);
+    return list;
+  }
+
+}
@@ -0,0 +1,62 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  parseDelimited
+} from '../../../lib/csvhandler/widget';
+
+
+describe('jupyter.csvhandler', () => {
+
+  describe('parseDelimited()', () => {
+
+    it('should split rows and fields', () => {
+      let rows = parseDelimited('a,b,c\n1,2,3', ',');
+      expect(rows).to.eql([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    it('should use the given delimiter', () => {
+      let rows = parseDelimited('a\tb,c\n1\t2', '\t');
+      expect(rows).to.eql([['a', 'b,c'], ['1', '2']]);
+    });
+
+    it('should keep delimiters and line breaks in quoted fields', () => {
+      let rows = parseDelimited('"a,b","c\nd"\n1,2', ',');
+      expect(rows).to.eql([['a,b', 'c\nd'], ['1', '2']]);
+    });
+
+    it('should unescape doubled quotes in quoted fields', () => {
+      let rows = parseDelimited('"say ""hi""",x', ',');
+      expect(rows).to.eql([['say "hi"', 'x']]);
+    });
+
+    it('should keep quotes inside unquoted fields', () => {
+      let rows = parseDelimited('a"b,c', ',');
+      expect(rows).to.eql([['a"b', 'c']]);
+    });
+
+    it('should handle Windows line endings', () => {
+      let rows = parseDelimited('a,b\r\n1,2\r\n', ',');
+      expect(rows).to.eql([['a', 'b'], ['1', '2']]);
+    });
+
+    it('should skip blank lines', () => {
+      let rows = parseDelimited('a\n\nb\n', ',');
+      expect(rows).to.eql([['a'], ['b']]);
+    });
+
+    it('should keep empty fields', () => {
+      let rows = parseDelimited(',a,\n', ',');
+      expect(rows).to.eql([['', 'a', '']]);
+    });
+
+    it('should return no rows for empty text', () => {
+      expect(parseDelimited('', ',')).to.eql([]);
+    });
+
+  });
+
+});
@@ -0,0 +1,330 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  IContentsModel
+} from 'jupyter-js-services';
+
+import {
+  MockContentsManager
+} from 'jupyter-js-services/lib/mockcontents';
+
+import {
+  CodeMirrorWidget
+} from 'jupyter-js-ui/lib/codemirror/widget';
+
+import {
+  FileHandler
+} from 'jupyter-js-ui/lib/filehandler';
+
+import {
+  DocumentRegistry
+} from '../../../lib/filehandler/registry';
+
+
+/**
+ * A contents manager which stamps the saved files with a modified time.
+ */
+class TimedContentsManager extends MockContentsManager {
+  /**
+   * Save a file with a new last modified time.
+   */
+  save(path: string, model: IContentsModel): Promise<IContentsModel> {
+    model.last_modified = new Date(Date.UTC(2016, 0, 1, 0, 0, ++this._time)).toISOString();
+    return super.save(path, model);
+  }
+
+  private _time = 0;
+}
+
+
+/**
+ * Create a document registry with a text file handler.
+ */
+function createRegistry(contents: MockContentsManager): DocumentRegistry {
+  let registry = new DocumentRegistry();
+  registry.addDefaultHandler(new FileHandler(contents), { name: 'Editor' });
+  return registry;
+}
+
+
+/**
+ * Write a file as another client would.
+ */
+function writeFile(contents: MockContentsManager, path: string, text: string): Promise<IContentsModel> {
+  return contents.save(path, {
+    name: path.split('/').pop(),
+    path,
+    type: 'file',
+    format: 'text',
+    content: text
+  });
+}
+
+
+/**
+ * Wait for the pending contents requests to finish.
+ */
+function settle(): Promise<void> {
+  return new Promise<void>(resolve => { setTimeout(resolve, 0); });
+}
+
+
+/**
+ * Wait for a time, in ms.
+ */
+function wait(time: number): Promise<void> {
+  return new Promise<void>(resolve => { setTimeout(resolve, time); });
+}
+
+
+/**
+ * Click the button of an open dialog.
+ */
+function clickButton(host: HTMLElement, text: string): void {
+  let buttons = host.querySelectorAll('.jp-Dialog-button');
+  for (let i = 0; i < buttons.length; i++) {
+    if (buttons[i].textContent === text) {
+      (buttons[i] as HTMLElement).click();
+      return;
+    }
+  }
+  throw new Error(`No dialog button '${text}'`);
+}
+
+
+describe('jupyter.filehandler', () => {
+
+  describe('DocumentRegistry', () => {
+
+    describe('#save()', () => {
+
+      it('should save a file unchanged on disk', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        return writeFile(contents, 'a.txt', 'a').then(() => {
+          registry.open('a.txt');
+          return settle();
+        }).then(() => {
+          return registry.save('a.txt');
+        }).then(model => {
+          expect(model.path).to.be('a.txt');
+          expect(registry.isConflicted('a.txt')).to.be(false);
+        });
+      });
+
+      it('should overwrite a file changed on disk when the user agrees', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        let saved: Promise<IContentsModel>;
+        return writeFile(contents, 'a.txt', 'a').then(() => {
+          registry.open('a.txt');
+          return settle();
+        }).then(() => {
+          return writeFile(contents, 'a.txt', 'b');
+        }).then(() => {
+          saved = registry.save('a.txt');
+          return settle();
+        }).then(() => {
+          expect(registry.isConflicted('a.txt')).to.be(true);
+          clickButton(registry.findWidget('a.txt').node, 'OVERWRITE');
+          return saved;
+        }).then(model => {
+          expect(model.path).to.be('a.txt');
+          expect(registry.isConflicted('a.txt')).to.be(false);
+          return contents.get('a.txt');
+        }).then(model => {
+          expect(model.content).to.be('a');
+        });
+      });
+
+      it('should reload a file changed on disk when the user chooses', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        let saved: Promise<IContentsModel>;
+        return writeFile(contents, 'a.txt', 'a').then(() => {
+          registry.open('a.txt');
+          return settle();
+        }).then(() => {
+          return writeFile(contents, 'a.txt', 'b');
+        }).then(() => {
+          saved = registry.save('a.txt');
+          return settle();
+        }).then(() => {
+          clickButton(registry.findWidget('a.txt').node, 'RELOAD');
+          return saved;
+        }).then(() => {
+          let widget = registry.findWidget('a.txt') as CodeMirrorWidget;
+          expect(widget.editor.getDoc().getValue()).to.be('b');
+          expect(registry.isConflicted('a.txt')).to.be(false);
+        });
+      });
+
+      it('should leave a file changed on disk when the user cancels', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        let saved: Promise<IContentsModel>;
+        return writeFile(contents, 'a.txt', 'a').then(() => {
+          registry.open('a.txt');
+          return settle();
+        }).then(() => {
+          return writeFile(contents, 'a.txt', 'b');
+        }).then(() => {
+          saved = registry.save('a.txt');
+          return settle();
+        }).then(() => {
+          clickButton(registry.findWidget('a.txt').node, 'CANCEL');
+          return saved;
+        }).then(model => {
+          expect(model).to.be(void 0);
+          expect(registry.isConflicted('a.txt')).to.be(true);
+          return contents.get('a.txt');
+        }).then(model => {
+          expect(model.content).to.be('b');
+        });
+      });
+
+      it('should show the path in the conflict dialog as text', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        let path = '<b>a</b>.txt';
+        let saved: Promise<IContentsModel>;
+        return writeFile(contents, path, 'a').then(() => {
+          registry.open(path);
+          return settle();
+        }).then(() => {
+          return writeFile(contents, path, 'b');
+        }).then(() => {
+          saved = registry.save(path);
+          return settle();
+        }).then(() => {
+          let host = registry.findWidget(path).node;
+          let body = host.querySelector('.jp-Dialog-body');
+          expect(body.textContent).to.contain(`"${path}"`);
+          expect(body.querySelector('b')).to.be(null);
+          clickButton(host, 'CANCEL');
+          return saved;
+        });
+      });
+
+    });
+
+    describe('#startChecking()', () => {
+
+      it('should check for changes periodically', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        return writeFile(contents, 'a.txt', 'a').then(() => {
+          registry.open('a.txt');
+          return settle();
+        }).then(() => {
+          return writeFile(contents, 'a.txt', 'b');
+        }).then(() => {
+          registry.startChecking(10);
+          return wait(50);
+        }).then(() => {
+          expect(registry.isConflicted('a.txt')).to.be(true);
+          registry.dispose();
+        });
+      });
+
+    });
+
+    describe('#stopChecking()', () => {
+
+      it('should stop the periodic checks', () => {
+        let registry = createRegistry(new MockContentsManager());
+        let count = 0;
+        registry.checkForChanges = () => {
+          count++;
+          return Promise.resolve(void 0);
+        };
+        registry.startChecking(10);
+        registry.stopChecking();
+        return wait(50).then(() => {
+          expect(count).to.be(0);
+        });
+      });
+
+    });
+
+    describe('#dispose()', () => {
+
+      it('should stop the periodic checks', () => {
+        let registry = createRegistry(new MockContentsManager());
+        let count = 0;
+        registry.checkForChanges = () => {
+          count++;
+          return Promise.resolve(void 0);
+        };
+        registry.startChecking(10);
+        registry.dispose();
+        expect(registry.isDisposed).to.be(true);
+        return wait(50).then(() => {
+          expect(count).to.be(0);
+        });
+      });
+
+    });
+
+    describe('#revert()', () => {
+
+      it('should remember the reverted contents', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        return writeFile(contents, 'a.txt', 'a').then(() => {
+          registry.open('a.txt');
+          return settle();
+        }).then(() => {
+          return writeFile(contents, 'a.txt', 'b');
+        }).then(() => {
+          return registry.checkForChanges();
+        }).then(() => {
+          expect(registry.isConflicted('a.txt')).to.be(true);
+          return registry.revert('a.txt');
+        }).then(() => {
+          expect(registry.isConflicted('a.txt')).to.be(false);
+          return registry.save('a.txt');
+        }).then(model => {
+          expect(model.path).to.be('a.txt');
+          expect(registry.isConflicted('a.txt')).to.be(false);
+        });
+      });
+
+    });
+
+    describe('#checkForChanges()', () => {
+
+      it('should flag the documents changed on disk', () => {
+        let contents = new TimedContentsManager();
+        let registry = createRegistry(contents);
+        let changed: string[] = [];
+        registry.conflictDetected.connect((sender, path) => {
+          changed.push(path);
+        });
+        return Promise.all([
+          writeFile(contents, 'a.txt', 'a'),
+          writeFile(contents, 'b.txt', 'b')
+        ]).then(() => {
+          registry.open('a.txt');
+          registry.open('b.txt');
+          return settle();
+        }).then(() => {
+          return writeFile(contents, 'b.txt', 'c');
+        }).then(() => {
+          return registry.checkForChanges();
+        }).then(() => {
+          expect(changed).to.eql(['b.txt']);
+          expect(registry.isConflicted('a.txt')).to.be(false);
+          expect(registry.isConflicted('b.txt')).to.be(true);
+        });
+      });
+
+    });
+
+  });
+
+});
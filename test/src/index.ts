@@ -4,6 +4,17 @@
 
 import expect = require('expect.js');
 
+import './csvhandler/widget.spec';
+import './filehandler/registry.spec';
+import './notebook/cells.spec';
+import './notebook/find.spec';
+import './notebook/runner.spec';
+import './notebook/trust.spec';
+import './readonly-notebook/plugin.spec';
+import './rendermime/registry.spec';
+import './shortcuts/manager.spec';
+import './toc/headings.spec';
+
 
 describe('jupyter.filebrowser', () => {
 
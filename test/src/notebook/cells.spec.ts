@@ -0,0 +1,337 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  INotebookModel, NotebookManager, NotebookModel, NotebookPanel
+} from 'jupyter-js-notebook';
+
+import {
+  MockContentsManager
+} from 'jupyter-js-services/lib/mockcontents';
+
+import {
+  RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  PanelLayout
+} from 'phosphor-panel';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  cutCells, deleteCells, deselectAll, findEditor, followClicks, mergeCells,
+  moveCells, selectAll, selectRange, selectedIndices, splitCell, undoDelete
+} from '../../../lib/notebook/cells';
+
+
+/**
+ * Create a notebook model with a code cell for each source.
+ */
+function createModel(sources: string[]): INotebookModel {
+  let model = new NotebookModel();
+  for (let source of sources) {
+    let cell = model.createCodeCell();
+    cell.input.textEditor.text = source;
+    model.cells.add(cell);
+  }
+  model.activeCellIndex = 0;
+  return model;
+}
+
+
+/**
+ * Create a notebook panel with a code cell for each source.
+ *
+ * #### Notes
+ * The cells are added after the panel is created, like the cells of a
+ * loaded notebook.
+ */
+function createPanel(sources: string[]): NotebookPanel {
+  let model = new NotebookModel();
+  let manager = new NotebookManager(model, new MockContentsManager());
+  let panel = new NotebookPanel(manager, new RenderMime<Widget>({}, []));
+  for (let source of sources) {
+    let cell = model.createCodeCell();
+    cell.input.textEditor.text = source;
+    model.cells.add(cell);
+  }
+  model.activeCellIndex = 0;
+  return panel;
+}
+
+
+/**
+ * Click a cell of a notebook panel.
+ */
+function clickCell(panel: NotebookPanel, index: number, shiftKey: boolean): void {
+  let layout = panel.notebook.layout as PanelLayout;
+  let event = new MouseEvent('click', { bubbles: true, shiftKey });
+  layout.childAt(index).node.dispatchEvent(event);
+}
+
+
+/**
+ * Get the sources of the cells of a notebook model.
+ */
+function sources(model: INotebookModel): string[] {
+  let values: string[] = [];
+  for (let i = 0; i < model.cells.length; i++) {
+    values.push(model.cells.get(i).input.textEditor.text);
+  }
+  return values;
+}
+
+
+describe('jupyter.notebook', () => {
+
+  describe('selectedIndices()', () => {
+
+    it('should include the active cell', () => {
+      let model = createModel(['a', 'b', 'c']);
+      model.activeCellIndex = 1;
+      expect(selectedIndices(model)).to.eql([1]);
+    });
+
+    it('should give the selected cells in order', () => {
+      let model = createModel(['a', 'b', 'c']);
+      model.activeCellIndex = 2;
+      model.select(model.cells.get(0));
+      expect(selectedIndices(model)).to.eql([0, 2]);
+    });
+
+  });
+
+  describe('selectRange()', () => {
+
+    it('should select the cells between the indices', () => {
+      let model = createModel(['a', 'b', 'c', 'd']);
+      selectRange(model, 3, 1);
+      expect(selectedIndices(model)).to.eql([1, 2, 3]);
+      expect(model.activeCellIndex).to.be(1);
+    });
+
+    it('should deselect the cells outside of the range', () => {
+      let model = createModel(['a', 'b', 'c', 'd']);
+      selectAll(model);
+      selectRange(model, 1, 2);
+      expect(selectedIndices(model)).to.eql([1, 2]);
+    });
+
+  });
+
+  describe('selectAll()', () => {
+
+    it('should select every cell', () => {
+      let model = createModel(['a', 'b', 'c']);
+      selectAll(model);
+      expect(selectedIndices(model)).to.eql([0, 1, 2]);
+    });
+
+  });
+
+  describe('followClicks()', () => {
+
+    it('should select the cells up to a shift-clicked cell', () => {
+      let panel = createPanel(['a', 'b', 'c', 'd']);
+      followClicks(panel);
+      clickCell(panel, 2, true);
+      expect(selectedIndices(panel.model)).to.eql([0, 1, 2]);
+      expect(panel.model.activeCellIndex).to.be(2);
+      panel.dispose();
+    });
+
+    it('should clear the selection on a click', () => {
+      let panel = createPanel(['a', 'b', 'c', 'd']);
+      followClicks(panel);
+      selectAll(panel.model);
+      clickCell(panel, 2, false);
+      expect(selectedIndices(panel.model)).to.eql([0]);
+      panel.dispose();
+    });
+
+    it('should stop following the clicks when the panel is disposed', () => {
+      let panel = createPanel(['a', 'b', 'c', 'd']);
+      let node = panel.notebook.node;
+      let removed = 0;
+      node.removeEventListener = function(type: string, listener: any, capture?: boolean) {
+        if (type === 'click' && capture) {
+          removed += 1;
+        }
+        HTMLElement.prototype.removeEventListener.call(node, type, listener, capture);
+      };
+      followClicks(panel);
+      panel.dispose();
+      expect(removed).to.be(1);
+    });
+
+  });
+
+  describe('deselectAll()', () => {
+
+    it('should leave only the active cell selected', () => {
+      let model = createModel(['a', 'b', 'c']);
+      selectAll(model);
+      model.activeCellIndex = 1;
+      deselectAll(model);
+      expect(selectedIndices(model)).to.eql([1]);
+    });
+
+  });
+
+  describe('deleteCells()', () => {
+
+    it('should delete every selected cell', () => {
+      let model = createModel(['a', 'b', 'c', 'd']);
+      selectRange(model, 1, 2);
+      deleteCells(model);
+      expect(sources(model)).to.eql(['a', 'd']);
+      expect(model.activeCellIndex).to.be(1);
+    });
+
+    it('should leave an empty code cell in an emptied notebook', () => {
+      let model = createModel(['a']);
+      deleteCells(model);
+      expect(sources(model)).to.eql(['']);
+      expect(model.cells.get(0).type).to.be('code');
+    });
+
+  });
+
+  describe('cutCells()', () => {
+
+    it('should cut every selected cell', () => {
+      let panel = createPanel(['a', 'b', 'c', 'd']);
+      selectRange(panel.model, 1, 2);
+      cutCells(panel);
+      expect(sources(panel.model)).to.eql(['a', 'd']);
+      panel.dispose();
+    });
+
+    it('should be undone', () => {
+      let panel = createPanel(['a', 'b', 'c']);
+      selectRange(panel.model, 0, 1);
+      cutCells(panel);
+      undoDelete(panel.model);
+      expect(sources(panel.model)).to.eql(['a', 'b', 'c']);
+      panel.dispose();
+    });
+
+  });
+
+  describe('undoDelete()', () => {
+
+    it('should restore the cells at their positions', () => {
+      let model = createModel(['a', 'b', 'c', 'd']);
+      model.activeCellIndex = 3;
+      model.select(model.cells.get(1));
+      deleteCells(model);
+      undoDelete(model);
+      expect(sources(model)).to.eql(['a', 'b', 'c', 'd']);
+    });
+
+    it('should undo several deletions in turn', () => {
+      let model = createModel(['a', 'b', 'c']);
+      model.activeCellIndex = 0;
+      deleteCells(model);
+      model.activeCellIndex = 1;
+      deleteCells(model);
+      expect(sources(model)).to.eql(['b']);
+      undoDelete(model);
+      expect(sources(model)).to.eql(['b', 'c']);
+      undoDelete(model);
+      expect(sources(model)).to.eql(['a', 'b', 'c']);
+    });
+
+    it('should do nothing without a deletion', () => {
+      let model = createModel(['a']);
+      undoDelete(model);
+      expect(sources(model)).to.eql(['a']);
+    });
+
+  });
+
+  describe('moveCells()', () => {
+
+    it('should move the selected cells up', () => {
+      let model = createModel(['a', 'b', 'c', 'd']);
+      selectRange(model, 2, 3);
+      moveCells(model, true);
+      expect(sources(model)).to.eql(['a', 'c', 'd', 'b']);
+      expect(model.activeCellIndex).to.be(2);
+    });
+
+    it('should move the selected cells down', () => {
+      let model = createModel(['a', 'b', 'c', 'd']);
+      selectRange(model, 0, 1);
+      moveCells(model, false);
+      expect(sources(model)).to.eql(['c', 'a', 'b', 'd']);
+      expect(model.activeCellIndex).to.be(2);
+    });
+
+    it('should not move cells past the edge of the notebook', () => {
+      let model = createModel(['a', 'b', 'c']);
+      selectRange(model, 1, 0);
+      moveCells(model, true);
+      expect(sources(model)).to.eql(['a', 'b', 'c']);
+    });
+
+  });
+
+  describe('mergeCells()', () => {
+
+    it('should merge the active cell with the cell below', () => {
+      let model = createModel(['a', 'b', 'c']);
+      mergeCells(model, false);
+      expect(sources(model)).to.eql(['a\n\nb', 'c']);
+      expect(model.activeCellIndex).to.be(0);
+    });
+
+    it('should merge the active cell with the cell above', () => {
+      let model = createModel(['a', 'b', 'c']);
+      model.activeCellIndex = 2;
+      mergeCells(model, true);
+      expect(sources(model)).to.eql(['a', 'b\n\nc']);
+      expect(model.activeCellIndex).to.be(1);
+    });
+
+    it('should merge only the selected cells', () => {
+      let model = createModel(['a', 'b', 'c', 'd']);
+      model.activeCellIndex = 3;
+      model.select(model.cells.get(1));
+      mergeCells(model, false);
+      expect(sources(model)).to.eql(['a', 'b\n\nd', 'c']);
+    });
+
+    it('should be undone with the original sources', () => {
+      let model = createModel(['a', 'b', 'c']);
+      mergeCells(model, false);
+      undoDelete(model);
+      expect(sources(model)).to.eql(['a', 'b', 'c']);
+    });
+
+  });
+
+  describe('splitCell()', () => {
+
+    it('should move the source before the cursor to a new cell above', () => {
+      let panel = createPanel(['a', 'bc', 'd']);
+      panel.model.activeCellIndex = 1;
+      // The editor of a detached cell is not synced with its source.
+      let doc = findEditor(panel, 1).getDoc();
+      doc.setValue('bc');
+      doc.setCursor({ line: 0, ch: 1 });
+      splitCell(panel);
+      expect(sources(panel.model)).to.eql(['a', 'b', 'c', 'd']);
+      expect(panel.model.activeCellIndex).to.be(2);
+      panel.dispose();
+    });
+
+  });
+
+});
@@ -0,0 +1,84 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  escapeRegExp, findAll, replaceAt
+} from '../../../lib/notebook/find';
+
+
+describe('jupyter.notebook', () => {
+
+  describe('findAll()', () => {
+
+    it('should find the offsets of every match', () => {
+      let matches = findAll('abcabc', /bc/g);
+      expect(matches).to.eql([[1, 3], [4, 6]]);
+    });
+
+    it('should find nothing when there is no match', () => {
+      expect(findAll('abc', /x/g)).to.eql([]);
+    });
+
+    it('should follow the flags of the expression', () => {
+      let matches = findAll('Ab ab', /ab/gi);
+      expect(matches).to.eql([[0, 2], [3, 5]]);
+    });
+
+    it('should step over empty matches', () => {
+      let matches = findAll('ab', /x*/g);
+      expect(matches).to.eql([[0, 0], [1, 1], [2, 2]]);
+    });
+
+    it('should reset the expression', () => {
+      let regex = /a/g;
+      findAll('aaa', regex);
+      expect(regex.lastIndex).to.be(0);
+    });
+
+  });
+
+  describe('replaceAt()', () => {
+
+    it('should replace the match at the offset only', () => {
+      expect(replaceAt('ab ab ab', /ab/g, 3, 'x')).to.be('ab x ab');
+    });
+
+    it('should match against the text around the match', () => {
+      expect(replaceAt('foo1 foo2', /foo(?=2)/, 5, 'bar')).to.be('foo1 bar2');
+      expect(replaceAt('a\na', /^a/m, 2, 'b')).to.be('a\nb');
+      expect(replaceAt('xab ab', /\bab/, 4, 'c')).to.be('xab c');
+    });
+
+    it('should expand the replacement patterns', () => {
+      expect(replaceAt('a-b c-d', /(\w)-(\w)/, 4, '$2-$1')).to.be('a-b d-c');
+    });
+
+    it('should return `null` when there is no match at the offset', () => {
+      expect(replaceAt('xab', /\bab/, 1, 'c')).to.be(null);
+    });
+
+  });
+
+  describe('escapeRegExp()', () => {
+
+    it('should match the text literally', () => {
+      let text = 'a.b*c?(d)[e]{f}|g^h$i\\j+k/l-m';
+      let regex = new RegExp(escapeRegExp(text), 'g');
+      expect(findAll(`x${text}x`, regex)).to.eql([[1, text.length + 1]]);
+    });
+
+    it('should not match other text with special characters', () => {
+      let regex = new RegExp(escapeRegExp('a.c'), 'g');
+      expect(findAll('abc a.c', regex)).to.eql([[4, 7]]);
+    });
+
+    it('should leave plain text unchanged', () => {
+      expect(escapeRegExp('abc 123')).to.be('abc 123');
+    });
+
+  });
+
+});
@@ -0,0 +1,206 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  INotebookModel, NotebookManager, NotebookModel, NotebookPanel
+} from 'jupyter-js-notebook';
+
+import {
+  ICellModel, ICodeCellModel
+} from 'jupyter-js-notebook/lib/cells';
+
+import {
+  IExecuteRequest, IKernelFuture, IKernelInfo, IKernelSpec
+} from 'jupyter-js-services';
+
+import {
+  MockContentsManager
+} from 'jupyter-js-services/lib/mockcontents';
+
+import {
+  MockKernel
+} from 'jupyter-js-services/lib/mockkernel';
+
+import {
+  MockSession
+} from 'jupyter-js-services/lib/mocksession';
+
+import {
+  RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  clearOutputs, runCells
+} from '../../../lib/notebook/runner';
+
+
+/**
+ * A kernel which replies to every execution, with an error for code
+ * which raises.
+ */
+class ReplyingKernel extends MockKernel {
+  /**
+   * The code of the execution requests, in order.
+   */
+  executed: string[] = [];
+
+  /**
+   * Get the kernel spec of the kernel.
+   */
+  getKernelSpec(): Promise<IKernelSpec> {
+    return Promise.resolve({
+      language: 'python',
+      argv: [],
+      display_name: 'Python',
+      env: {}
+    });
+  }
+
+  /**
+   * Get the kernel info without a kernel message.
+   */
+  kernelInfo(): Promise<IKernelInfo> {
+    return Promise.resolve<IKernelInfo>({
+      protocol_version: '5.0',
+      implementation: 'python',
+      implementation_version: '',
+      language_info: {
+        name: 'python',
+        version: '',
+        mimetype: 'text/x-python',
+        file_extension: '.py',
+        pygments_lexer: '',
+        codemirror_mode: '',
+        nbconverter_exporter: ''
+      },
+      banner: '',
+      help_links: {}
+    });
+  }
+
+  /**
+   * Execute code, replying after the request is sent.
+   */
+  execute(contents: IExecuteRequest, disposeOnDone?: boolean): IKernelFuture {
+    let future = super.execute(contents, disposeOnDone);
+    this.executed.push(contents.code);
+    let count = this.executed.length;
+    Promise.resolve().then(() => {
+      if (contents.code.indexOf('raise') !== -1) {
+        this.sendServerMessage('error', 'iopub', {
+          ename: 'ValueError',
+          evalue: '',
+          traceback: []
+        });
+        this.sendShellReply({ status: 'error', execution_count: count });
+      } else {
+        this.sendShellReply({ status: 'ok', execution_count: count });
+      }
+    });
+    return future;
+  }
+}
+
+
+/**
+ * Create a notebook panel with a code cell for each source.
+ */
+function createPanel(sources: string[], kernel?: ReplyingKernel): NotebookPanel {
+  let model = new NotebookModel();
+  for (let source of sources) {
+    let cell = model.createCodeCell();
+    cell.input.textEditor.text = source;
+    model.cells.add(cell);
+  }
+  model.activeCellIndex = 0;
+  if (kernel) {
+    model.session = new MockSession('test.ipynb', kernel);
+  }
+  let manager = new NotebookManager(model, new MockContentsManager());
+  return new NotebookPanel(manager, new RenderMime<Widget>({}, []));
+}
+
+
+/**
+ * Get the cells of a notebook model.
+ */
+function cellsOf(model: INotebookModel): ICellModel[] {
+  let cells: ICellModel[] = [];
+  for (let i = 0; i < model.cells.length; i++) {
+    cells.push(model.cells.get(i));
+  }
+  return cells;
+}
+
+
+describe('jupyter.notebook', () => {
+
+  describe('runCells()', () => {
+
+    it('should run the cells in order', () => {
+      let kernel = new ReplyingKernel();
+      let panel = createPanel(['a = 1', 'b = 2', 'c = 3'], kernel);
+      return runCells(panel, cellsOf(panel.model)).then(ok => {
+        expect(ok).to.be(true);
+        expect(kernel.executed).to.eql(['a = 1', 'b = 2', 'c = 3']);
+        panel.dispose();
+      });
+    });
+
+    it('should stop at the first cell with an error', () => {
+      let kernel = new ReplyingKernel();
+      let panel = createPanel(['a = 1', 'raise ValueError', 'c = 3'], kernel);
+      return runCells(panel, cellsOf(panel.model)).then(ok => {
+        expect(ok).to.be(false);
+        expect(kernel.executed).to.eql(['a = 1', 'raise ValueError']);
+        expect(panel.model.activeCellIndex).to.be(1);
+        panel.dispose();
+      });
+    });
+
+    it('should not run without a kernel', () => {
+      let panel = createPanel(['a = 1']);
+      return runCells(panel, cellsOf(panel.model)).then(ok => {
+        expect(ok).to.be(false);
+        panel.dispose();
+      });
+    });
+
+    it('should not start a second run in the same notebook', () => {
+      let kernel = new ReplyingKernel();
+      let panel = createPanel(['a = 1'], kernel);
+      let first = runCells(panel, cellsOf(panel.model));
+      let second = runCells(panel, cellsOf(panel.model));
+      return Promise.all([first, second]).then(results => {
+        expect(results).to.eql([true, false]);
+        expect(kernel.executed).to.eql(['a = 1']);
+        panel.dispose();
+      });
+    });
+
+  });
+
+  describe('clearOutputs()', () => {
+
+    it('should clear the outputs of the code cells', () => {
+      let kernel = new ReplyingKernel();
+      let panel = createPanel(['raise ValueError'], kernel);
+      let cell = panel.model.cells.get(0) as ICodeCellModel;
+      return runCells(panel, [cell]).then(() => {
+        expect(cell.output.outputs.length).to.be(1);
+        clearOutputs([cell]);
+        expect(cell.output.outputs.length).to.be(0);
+        panel.dispose();
+      });
+    });
+
+  });
+
+});
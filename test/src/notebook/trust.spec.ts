@@ -0,0 +1,142 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  NotebookNotary, stripTrust
+} from '../../../lib/notebook/trust';
+
+
+/**
+ * Create notebook content which no other test uses.
+ */
+function createContent(): any {
+  return {
+    metadata: { kernelspec: { name: 'python3', display_name: 'Python 3' } },
+    nbformat: 4,
+    nbformat_minor: 0,
+    cells: [
+      {
+        cell_type: 'code',
+        metadata: { trusted: false },
+        source: `print(${Math.random()})`,
+        outputs: [],
+        execution_count: null
+      }
+    ]
+  };
+}
+
+
+describe('jupyter.notebook', () => {
+
+  describe('stripTrust()', () => {
+
+    it('should remove the trusted state and the signature', () => {
+      let content = createContent();
+      content.metadata.signature = 'sha256:abc';
+      let copy = stripTrust(content);
+      expect('trusted' in copy.cells[0].metadata).to.be(false);
+      expect('signature' in copy.metadata).to.be(false);
+    });
+
+    it('should not change the content', () => {
+      let content = createContent();
+      stripTrust(content);
+      expect(content.cells[0].metadata.trusted).to.be(false);
+    });
+
+  });
+
+  describe('NotebookNotary', () => {
+
+    describe('#sign()', () => {
+
+      it('should give the same signature for the same content', () => {
+        let notary = new NotebookNotary();
+        let content = createContent();
+        return Promise.all([
+          notary.sign(content), notary.sign(JSON.parse(JSON.stringify(content)))
+        ]).then(([a, b]) => {
+          expect(a).to.match(/^[0-9a-f]{64}$/);
+          expect(a).to.be(b);
+        });
+      });
+
+      it('should not depend on the order of the keys', () => {
+        let notary = new NotebookNotary();
+        let content = createContent();
+        let reordered: any = { cells: content.cells };
+        reordered.nbformat_minor = content.nbformat_minor;
+        reordered.nbformat = content.nbformat;
+        reordered.metadata = content.metadata;
+        return Promise.all([
+          notary.sign(content), notary.sign(reordered)
+        ]).then(([a, b]) => {
+          expect(a).to.be(b);
+        });
+      });
+
+      it('should ignore the trusted state of the cells', () => {
+        let notary = new NotebookNotary();
+        let content = createContent();
+        let trusted = JSON.parse(JSON.stringify(content));
+        trusted.cells[0].metadata.trusted = true;
+        return Promise.all([
+          notary.sign(content), notary.sign(trusted)
+        ]).then(([a, b]) => {
+          expect(a).to.be(b);
+        });
+      });
+
+      it('should give another signature for changed content', () => {
+        let notary = new NotebookNotary();
+        let content = createContent();
+        let changed = JSON.parse(JSON.stringify(content));
+        changed.cells[0].source += ' ';
+        return Promise.all([
+          notary.sign(content), notary.sign(changed)
+        ]).then(([a, b]) => {
+          expect(a).to.not.be(b);
+        });
+      });
+
+    });
+
+    describe('#check()', () => {
+
+      it('should not trust unknown content', () => {
+        let notary = new NotebookNotary();
+        return notary.check(createContent()).then(trusted => {
+          expect(trusted).to.be(false);
+        });
+      });
+
+      it('should trust content after it is trusted', () => {
+        let notary = new NotebookNotary();
+        let content = createContent();
+        return notary.trust(content).then(() => {
+          return notary.check(content);
+        }).then(trusted => {
+          expect(trusted).to.be(true);
+        });
+      });
+
+      it('should not trust trusted content once it changes', () => {
+        let notary = new NotebookNotary();
+        let content = createContent();
+        return notary.trust(content).then(() => {
+          content.cells[0].source += ' ';
+          return notary.check(content);
+        }).then(trusted => {
+          expect(trusted).to.be(false);
+        });
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,110 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  MockContentsManager
+} from 'jupyter-js-services/lib/mockcontents';
+
+import {
+  RenderMime
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  NotebookViewerHandler
+} from '../../../lib/readonly-notebook/plugin';
+
+import {
+  NotebookViewer
+} from '../../../lib/readonly-notebook/widget';
+
+
+/**
+ * Write a notebook with a code cell to a contents manager.
+ */
+function writeNotebook(contents: MockContentsManager, path: string): Promise<any> {
+  return contents.save(path, {
+    name: path.split('/').pop(),
+    path,
+    type: 'notebook',
+    format: 'json',
+    content: {
+      metadata: {
+        kernelspec: { name: 'python3', display_name: 'Python 3' },
+        language_info: { name: 'python' }
+      },
+      nbformat: 4,
+      nbformat_minor: 0,
+      cells: [
+        {
+          cell_type: 'code',
+          metadata: { trusted: true },
+          source: 'a = 1',
+          outputs: [],
+          execution_count: null
+        }
+      ]
+    }
+  });
+}
+
+
+/**
+ * Wait for the pending contents requests to finish.
+ */
+function settle(): Promise<void> {
+  return new Promise<void>(resolve => { setTimeout(resolve, 0); });
+}
+
+
+describe('jupyter.readonly-notebook', () => {
+
+  describe('NotebookViewerHandler', () => {
+
+    describe('#open()', () => {
+
+      it('should ignore the trusted state stored in the file', () => {
+        let contents = new MockContentsManager();
+        let handler = new NotebookViewerHandler(contents, new RenderMime<Widget>({}, []));
+        let viewer: NotebookViewer;
+        return writeNotebook(contents, 'a.ipynb').then(() => {
+          viewer = handler.open('a.ipynb');
+          return settle();
+        }).then(() => {
+          expect(viewer.model.cells.length).to.be(1);
+          expect(viewer.model.cells.get(0).trusted).to.be(false);
+        });
+      });
+
+    });
+
+    describe('#save()', () => {
+
+      it('should reject without writing the file', () => {
+        let contents = new MockContentsManager();
+        let handler = new NotebookViewerHandler(contents, new RenderMime<Widget>({}, []));
+        return writeNotebook(contents, 'a.ipynb').then(() => {
+          handler.open('a.ipynb');
+          return settle();
+        }).then(() => {
+          contents.methods = [];
+          return handler.save('a.ipynb');
+        }).then(() => {
+          throw new Error('should have rejected');
+        }, error => {
+          expect(error.message).to.contain('read-only');
+          expect(contents.methods).to.not.contain('save');
+        });
+      });
+
+    });
+
+  });
+
+});
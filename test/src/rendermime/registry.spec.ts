@@ -0,0 +1,123 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  IRenderer, MimeMap
+} from 'jupyter-js-ui/lib/rendermime';
+
+import {
+  Widget
+} from 'phosphor-widget';
+
+import {
+  RenderMimeRegistry
+} from '../../../lib/rendermime/registry';
+
+
+/**
+ * A renderer which renders nothing.
+ */
+class NullRenderer implements IRenderer<Widget> {
+  constructor(mimetypes: string[]) {
+    this.mimetypes = mimetypes;
+  }
+
+  mimetypes: string[];
+
+  render(mimetype: string, data: string): Widget {
+    return null;
+  }
+}
+
+
+describe('jupyter.rendermime', () => {
+
+  describe('RenderMimeRegistry', () => {
+
+    describe('#addRenderer()', () => {
+
+      it('should order the mimetypes by rank', () => {
+        let registry = new RenderMimeRegistry();
+        registry.addRenderer(new NullRenderer(['text/b']), { rank: 20 });
+        registry.addRenderer(new NullRenderer(['text/a']), { rank: 10 });
+        registry.addRenderer(new NullRenderer(['text/c']), { rank: 30 });
+        expect(registry.order).to.eql(['text/a', 'text/b', 'text/c']);
+      });
+
+      it('should keep the order of mimetypes with equal ranks', () => {
+        let registry = new RenderMimeRegistry();
+        registry.addRenderer(new NullRenderer(['text/b', 'text/a']), { rank: 10 });
+        registry.addRenderer(new NullRenderer(['text/c']), { rank: 10 });
+        expect(registry.order).to.eql(['text/b', 'text/a', 'text/c']);
+      });
+
+      it('should rank renderers without a rank last', () => {
+        let registry = new RenderMimeRegistry();
+        registry.addRenderer(new NullRenderer(['text/a']));
+        registry.addRenderer(new NullRenderer(['text/b']), { rank: 90 });
+        expect(registry.order).to.eql(['text/b', 'text/a']);
+        expect(registry.getRank('text/a')).to.be(100);
+      });
+
+      it('should override the renderer of a mimetype', () => {
+        let registry = new RenderMimeRegistry();
+        let renderer = new NullRenderer(['text/a']);
+        registry.addRenderer(new NullRenderer(['text/a']), { rank: 10 });
+        registry.addRenderer(renderer);
+        expect(registry.renderers['text/a']).to.be(renderer);
+        expect(registry.order).to.eql(['text/a']);
+      });
+
+      it('should keep the rank of an overridden mimetype', () => {
+        let registry = new RenderMimeRegistry();
+        registry.addRenderer(new NullRenderer(['text/a']), { rank: 10 });
+        registry.addRenderer(new NullRenderer(['text/a']));
+        expect(registry.getRank('text/a')).to.be(10);
+      });
+
+      it('should prefer the mimetype with the lowest rank', () => {
+        let registry = new RenderMimeRegistry();
+        registry.addRenderer(new NullRenderer(['text/plain']), { rank: 20 });
+        registry.addRenderer(new NullRenderer(['text/html']), { rank: 10 });
+        let bundle: MimeMap<string> = { 'text/plain': 'a', 'text/html': '<b>a</b>' };
+        expect(registry.preferredMimetype(bundle)).to.be('text/html');
+      });
+
+    });
+
+    describe('#removeRenderer()', () => {
+
+      it('should remove the renderer and its rank', () => {
+        let registry = new RenderMimeRegistry();
+        registry.addRenderer(new NullRenderer(['text/a', 'text/b']));
+        registry.removeRenderer('text/a');
+        expect(registry.order).to.eql(['text/b']);
+        expect(registry.renderers['text/a']).to.be(void 0);
+        expect(registry.getRank('text/a')).to.be(void 0);
+      });
+
+    });
+
+    describe('#setRank()', () => {
+
+      it('should reorder the mimetypes', () => {
+        let registry = new RenderMimeRegistry();
+        registry.addRenderer(new NullRenderer(['text/a']), { rank: 10 });
+        registry.addRenderer(new NullRenderer(['text/b']), { rank: 20 });
+        registry.setRank('text/b', 5);
+        expect(registry.order).to.eql(['text/b', 'text/a']);
+      });
+
+      it('should throw for a mimetype without a renderer', () => {
+        let registry = new RenderMimeRegistry();
+        expect(() => { registry.setRank('text/a', 1); }).to.throwError();
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,238 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  CommandRegistry
+} from 'phosphide/lib/services/commandregistry';
+
+import {
+  IShortcutItem, ShortcutRegistry
+} from 'phosphide/lib/services/shortcutregistry';
+
+import {
+  IShortcutOverride, IShortcutStorage, LocalShortcutStorage, ShortcutManager
+} from '../../../lib/shortcuts/manager';
+
+
+/**
+ * A shortcut storage which keeps the overrides in memory.
+ */
+class MemoryStorage implements IShortcutStorage {
+  overrides: IShortcutOverride[] = [];
+
+  load(): Promise<IShortcutOverride[]> {
+    return Promise.resolve(this.overrides);
+  }
+
+  save(overrides: IShortcutOverride[]): Promise<void> {
+    this.overrides = overrides;
+    return Promise.resolve(void 0);
+  }
+}
+
+
+/**
+ * The default shortcuts used by the tests.
+ */
+const DEFAULTS: IShortcutItem[] = [
+  { command: 'test:save', selector: 'body', sequence: ['Ctrl S'] },
+  { command: 'test:delete', selector: '.cell', sequence: ['D', 'D'] },
+  { command: 'test:run', selector: '.cell', sequence: ['Ctrl Shift Enter'] }
+];
+
+
+/**
+ * Create a shortcut manager with the default shortcuts.
+ */
+function createManager(storage: IShortcutStorage = new MemoryStorage()): ShortcutManager {
+  let registry = new ShortcutRegistry(new CommandRegistry());
+  let manager = new ShortcutManager(registry, storage);
+  manager.addDefaults(DEFAULTS);
+  return manager;
+}
+
+
+/**
+ * Find the effective shortcut of a command.
+ */
+function findShortcut(manager: ShortcutManager, command: string): IShortcutItem {
+  return manager.shortcuts.filter(item => item.command === command)[0];
+}
+
+
+describe('jupyter.shortcuts', () => {
+
+  describe('ShortcutManager', () => {
+
+    describe('#findConflicts()', () => {
+
+      it('should find a shortcut with the same sequence and selector', () => {
+        let manager = createManager();
+        let item = { command: 'test:other', selector: 'body', sequence: ['Ctrl S'] };
+        let conflicts = manager.findConflicts(item);
+        expect(conflicts.map(c => c.command)).to.eql(['test:save']);
+      });
+
+      it('should compare the normalized keystrokes', () => {
+        let manager = createManager();
+        let item = { command: 'test:other', selector: '.cell', sequence: ['Shift Ctrl Enter'] };
+        let conflicts = manager.findConflicts(item);
+        expect(conflicts.map(c => c.command)).to.eql(['test:run']);
+      });
+
+      it('should find a shortcut whose sequence is a prefix', () => {
+        let manager = createManager();
+        let item = { command: 'test:other', selector: '.cell', sequence: ['D', 'D', 'X'] };
+        let conflicts = manager.findConflicts(item);
+        expect(conflicts.map(c => c.command)).to.eql(['test:delete']);
+      });
+
+      it('should find a shortcut which the sequence is a prefix of', () => {
+        let manager = createManager();
+        let item = { command: 'test:other', selector: '.cell', sequence: ['D'] };
+        let conflicts = manager.findConflicts(item);
+        expect(conflicts.map(c => c.command)).to.eql(['test:delete']);
+      });
+
+      it('should ignore shortcuts with another selector', () => {
+        let manager = createManager();
+        let item = { command: 'test:other', selector: '.cell', sequence: ['Ctrl S'] };
+        expect(manager.findConflicts(item)).to.eql([]);
+      });
+
+      it('should ignore the shortcut of the same command', () => {
+        let manager = createManager();
+        let item = { command: 'test:save', selector: 'body', sequence: ['Ctrl S'] };
+        expect(manager.findConflicts(item)).to.eql([]);
+      });
+
+      it('should throw for an invalid sequence', () => {
+        let manager = createManager();
+        let item = { command: 'test:other', selector: 'body', sequence: ['Ctrl Foo'] };
+        expect(() => { manager.findConflicts(item); }).to.throwError();
+      });
+
+    });
+
+    describe('#setShortcut()', () => {
+
+      it('should override the default shortcut', () => {
+        let storage = new MemoryStorage();
+        let manager = createManager(storage);
+        return manager.setShortcut('test:save', ['Ctrl Shift S']).then(() => {
+          let item = findShortcut(manager, 'test:save');
+          expect(item.sequence).to.eql(['Ctrl Shift S']);
+          expect(item.selector).to.be('body');
+          expect(storage.overrides).to.eql([
+            { command: 'test:save', sequence: ['Ctrl Shift S'] }
+          ]);
+        });
+      });
+
+      it('should add a shortcut for a command without a default', () => {
+        let manager = createManager();
+        return manager.setShortcut('test:other', ['Ctrl O'], '.cell').then(() => {
+          let item = findShortcut(manager, 'test:other');
+          expect(item.sequence).to.eql(['Ctrl O']);
+          expect(item.selector).to.be('.cell');
+        });
+      });
+
+      it('should reject another selector for a command with a default', () => {
+        let manager = createManager();
+        return manager.setShortcut('test:save', ['Ctrl Shift S'], '.cell').then(() => {
+          throw new Error('should have rejected');
+        }, error => {
+          expect(error.message).to.contain("'body'");
+          expect(findShortcut(manager, 'test:save').sequence).to.eql(['Ctrl S']);
+        });
+      });
+
+      it('should reject an invalid sequence', () => {
+        let manager = createManager();
+        return manager.setShortcut('test:save', []).then(() => {
+          throw new Error('should have rejected');
+        }, error => {
+          expect(findShortcut(manager, 'test:save').sequence).to.eql(['Ctrl S']);
+        });
+      });
+
+    });
+
+    describe('#load()', () => {
+
+      it('should ignore an override with another selector', () => {
+        let storage = new MemoryStorage();
+        storage.overrides = [
+          { command: 'test:save', selector: '.cell', sequence: ['Ctrl Shift S'] },
+          { command: 'test:run', sequence: ['Shift Enter'] }
+        ];
+        let manager = createManager(storage);
+        return manager.load().then(() => {
+          expect(findShortcut(manager, 'test:save').sequence).to.eql(['Ctrl S']);
+          expect(findShortcut(manager, 'test:run').sequence).to.eql(['Shift Enter']);
+        });
+      });
+
+    });
+
+    describe('#disable()', () => {
+
+      it('should remove the shortcut of a command', () => {
+        let manager = createManager();
+        return manager.disable('test:run').then(() => {
+          expect(findShortcut(manager, 'test:run')).to.be(void 0);
+        });
+      });
+
+    });
+
+    describe('#reset()', () => {
+
+      it('should restore the default shortcut', () => {
+        let manager = createManager();
+        return manager.disable('test:run').then(() => {
+          return manager.reset('test:run');
+        }).then(() => {
+          expect(findShortcut(manager, 'test:run').sequence).to.eql(['Ctrl Shift Enter']);
+          expect(manager.overrides).to.eql([]);
+        });
+      });
+
+    });
+
+  });
+
+  describe('LocalShortcutStorage', () => {
+
+    describe('#load()', () => {
+
+      it('should drop the invalid overrides', () => {
+        let key = 'jupyter.shortcuts.test';
+        window.localStorage.setItem(key, JSON.stringify([
+          { command: 'test:save', sequence: ['Ctrl S'] },
+          { command: 'test:run', sequence: 'Shift Enter' },
+          { sequence: ['D'] },
+          'test:delete'
+        ]));
+        return new LocalShortcutStorage(key).load().then(overrides => {
+          expect(overrides).to.eql([{ command: 'test:save', sequence: ['Ctrl S'] }]);
+        });
+      });
+
+      it('should give no overrides for invalid text', () => {
+        let key = 'jupyter.shortcuts.test';
+        window.localStorage.setItem(key, '{');
+        return new LocalShortcutStorage(key).load().then(overrides => {
+          expect(overrides).to.eql([]);
+        });
+      });
+
+    });
+
+  });
+
+});
@@ -0,0 +1,78 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  findHeadings
+} from '../../../lib/toc/headings';
+
+
+describe('jupyter.toc', () => {
+
+  describe('findHeadings()', () => {
+
+    it('should find the `#` headings with their levels', () => {
+      let headings = findHeadings('# One\ntext\n### Three\n###### Six');
+      expect(headings).to.eql([
+        { level: 1, text: 'One' },
+        { level: 3, text: 'Three' },
+        { level: 6, text: 'Six' }
+      ]);
+    });
+
+    it('should remove closing `#` characters', () => {
+      expect(findHeadings('## Two ##')).to.eql([{ level: 2, text: 'Two' }]);
+    });
+
+    it('should keep the `#` characters which do not follow a space', () => {
+      let headings = findHeadings('# C#\n## F# #\n# #');
+      expect(headings).to.eql([
+        { level: 1, text: 'C#' },
+        { level: 2, text: 'F#' }
+      ]);
+    });
+
+    it('should require a space after the `#` characters', () => {
+      expect(findHeadings('#hashtag\n####### Seven')).to.eql([]);
+    });
+
+    it('should find the underlined headings', () => {
+      let headings = findHeadings('One\n===\nTwo\n---');
+      expect(headings).to.eql([
+        { level: 1, text: 'One' },
+        { level: 2, text: 'Two' }
+      ]);
+    });
+
+    it('should not take a rule after a blank line as a heading', () => {
+      expect(findHeadings('\n---')).to.eql([]);
+    });
+
+    it('should not take a list item or a quote as an underlined heading', () => {
+      let source = '- item\n---\n* item\n---\n1. item\n===\n> quote\n---';
+      expect(findHeadings(source)).to.eql([]);
+    });
+
+    it('should not take a fence as an underlined heading', () => {
+      expect(findHeadings('```\ncode\n```\n---')).to.eql([]);
+    });
+
+    it('should ignore lines in fenced code blocks', () => {
+      let source = '```\n# comment\n```\n~~~~\n# comment\n```\n~~~~\n# Real';
+      expect(findHeadings(source)).to.eql([{ level: 1, text: 'Real' }]);
+    });
+
+    it('should remove the inline markup from the text', () => {
+      let headings = findHeadings('# A *bold* [link](url) <b>tag</b> `code`');
+      expect(headings).to.eql([{ level: 1, text: 'A bold link tag code' }]);
+    });
+
+    it('should skip headings without text', () => {
+      expect(findHeadings('# <br>')).to.eql([]);
+    });
+
+  });
+
+});
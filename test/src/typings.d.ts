@@ -1,2 +1,4 @@
+/// <reference path="../../typings/es6-promise/es6-promise.d.ts"/>
+/// <reference path="../../typings/codemirror/codemirror.d.ts"/>
 /// <reference path="../../typings/expect.js/expect.js.d.ts"/>
 /// <reference path="../../typings/mocha/mocha.d.ts"/>